@@ -0,0 +1,123 @@
+/**
+ * Static scan of package source for sensitive capabilities.
+ *
+ * This is a regex pass over each JS/TS file, not a parser: it reports what the
+ * code *mentions* so reviewers know where to look, and can be fooled by code
+ * that builds module names at runtime (which the "obfuscated" check partly covers).
+ */
+
+import { joinList, splitList } from "./csv-list.js";
+
+export type Capability =
+  | "child_process"
+  | "fs-write"
+  | "network"
+  | "eval"
+  | "env"
+  | "obfuscated";
+
+export const CAPABILITIES: Capability[] = [
+  "child_process",
+  "fs-write",
+  "network",
+  "eval",
+  "env",
+  "obfuscated",
+];
+
+/** Capability -> files (relative to the package root) that use it */
+export type CapabilityReport = Partial<Record<Capability, string[]>>;
+
+/** Only keep this many example files per capability */
+const MAX_FILES_PER_CAPABILITY = 5;
+
+/** require("x"), import ... from "x", import("x"), with or without "node:" */
+function moduleImport(names: string[]): RegExp {
+  const mod = `['"\`](?:node:)?(?:${names.join("|")})(?:/[\\w/]*)?['"\`]`;
+  return new RegExp(`(?:require|import)\\s*\\(\\s*${mod}|\\bfrom\\s*${mod}|\\bimport\\s*${mod}`);
+}
+
+const PATTERNS: Record<Capability, RegExp[]> = {
+  child_process: [moduleImport(["child_process"]), /\bprocess\.binding\s*\(\s*['"]spawn_sync/],
+  "fs-write": [
+    /\.(?:writeFile|appendFile|createWriteStream|unlink|rm|rmdir|chmod|chown|rename|copyFile|symlink|truncate)(?:Sync)?\s*\(/,
+  ],
+  network: [
+    moduleImport(["http", "https", "http2", "net", "tls", "dgram", "dns"]),
+    /\bfetch\s*\(/,
+    /\bnew\s+(?:XMLHttpRequest|WebSocket)\b/,
+  ],
+  eval: [/(?<![.\w])eval\s*\(/, /\bnew\s+Function\s*\(/],
+  env: [/\bprocess\.env\b/],
+  obfuscated: [
+    // Long base64 blobs
+    /['"`][A-Za-z0-9+/]{200,}={0,2}['"`]/,
+    // Runs of hex/unicode escapes
+    /(?:\\x[0-9a-fA-F]{2}){20,}|(?:\\u[0-9a-fA-F]{4}){20,}/,
+    // javascript-obfuscator style identifiers
+    /\b_0x[0-9a-f]{4,}\b/,
+    // Buffer.from("...", "base64") / atob decoding something substantial
+    /(?:Buffer\.from|atob)\s*\(\s*['"`][A-Za-z0-9+/=]{60,}['"`]/,
+  ],
+};
+
+export interface CapabilityScanner {
+  scanFile(relativePath: string, content: string): void;
+  report(): CapabilityReport;
+}
+
+/**
+ * Accumulate capabilities across the files of one package.
+ */
+export function createCapabilityScanner(): CapabilityScanner {
+  const found: CapabilityReport = {};
+
+  return {
+    scanFile(relativePath, content) {
+      for (const capability of CAPABILITIES) {
+        if (PATTERNS[capability].some((pattern) => pattern.test(content))) {
+          const files = (found[capability] ??= []);
+          if (files.length < MAX_FILES_PER_CAPABILITY) {
+            files.push(relativePath);
+          }
+        }
+      }
+    },
+    report() {
+      return found;
+    },
+  };
+}
+
+/**
+ * Capability names present in a report, in CAPABILITIES order.
+ */
+export function capabilityNames(report: CapabilityReport | undefined): Capability[] {
+  return report ? CAPABILITIES.filter((capability) => report[capability] !== undefined) : [];
+}
+
+/**
+ * Format a report as "child_process: lib/run.js; env: index.js" for CSV.
+ */
+export function formatCapabilities(report: CapabilityReport | undefined): string {
+  return capabilityNames(report)
+    .map((capability) => `${capability}: ${joinList(report![capability]!, ",")}`)
+    .join("; ");
+}
+
+/**
+ * Parse the output of formatCapabilities back into a report.
+ */
+export function parseCapabilities(value: string): CapabilityReport | undefined {
+  if (!value.trim()) {
+    return undefined;
+  }
+  const report: CapabilityReport = {};
+  for (const part of splitList(value, ";", { raw: true })) {
+    const match = /^([\w-]+)\s*:?\s*([\s\S]*)$/.exec(part);
+    if (match && (CAPABILITIES as string[]).includes(match[1])) {
+      report[match[1] as Capability] = splitList(match[2], ",");
+    }
+  }
+  return report;
+}
@@ -0,0 +1,68 @@
+/**
+ * Persist changes-feed checkpoints between runs.
+ * Each saved search gets its own entry so incremental scans don't interfere.
+ */
+
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname } from "path";
+
+export const DEFAULT_STATE_FILE = "out/checkpoints.json";
+
+export interface Checkpoint {
+  lastSeq: string;
+  updatedAt: string;
+}
+
+type CheckpointState = Record<string, Checkpoint>;
+
+async function readState(stateFile: string): Promise<CheckpointState> {
+  let content: string;
+  try {
+    content = await readFile(stateFile, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return {};
+    }
+    throw err;
+  }
+
+  try {
+    return JSON.parse(content) as CheckpointState;
+  } catch {
+    throw new Error(`State file is not valid JSON: ${stateFile}`);
+  }
+}
+
+/**
+ * Build a checkpoint key for a search when no explicit name is given.
+ */
+export function checkpointKeyFor(searchTerms: string | undefined): string {
+  const normalized = (searchTerms ?? "").trim().replace(/\s+/g, " ").toLowerCase();
+  return normalized ? `search:${normalized}` : "all";
+}
+
+/**
+ * Load the checkpoint saved under `key`, if any.
+ */
+export async function loadCheckpoint(
+  stateFile: string,
+  key: string
+): Promise<Checkpoint | undefined> {
+  const state = await readState(stateFile);
+  return state[key];
+}
+
+/**
+ * Save `lastSeq` under `key`, keeping other searches' checkpoints intact.
+ */
+export async function saveCheckpoint(
+  stateFile: string,
+  key: string,
+  lastSeq: string
+): Promise<void> {
+  const state = await readState(stateFile);
+  state[key] = { lastSeq, updatedAt: new Date().toISOString() };
+
+  await mkdir(dirname(stateFile), { recursive: true });
+  await writeFile(stateFile, JSON.stringify(state, null, 2) + "\n", "utf-8");
+}
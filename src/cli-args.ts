@@ -2,16 +2,78 @@
  * Parse command-line arguments for non-interactive mode.
  */
 
+import type { MatchMode } from "./description-filter.js";
+import type { SortKey } from "./relevance.js";
+import type { JsLinesMetric } from "./source-metrics.js";
+import type { ModuleFormat } from "./module-format.js";
+
 export interface CliArgs {
   help?: boolean;
+  configFile?: string;
+  profile?: string;
+  allProfiles?: boolean;
+  nonInteractive?: boolean;
+  csv?: string;
+  summarize?: string;
+  post?: boolean;
+  output?: string;
+  formats?: string[];
+  webhookUrl?: string;
   search?: string;
   range?: string;
+  from?: string;
+  to?: string;
+  timeZone?: string;
   partialMatch?: boolean;
+  searchMode?: MatchMode;
   minJsLines?: number;
+  jsLinesMetric?: JsLinesMetric;
+  scanCapabilities?: boolean;
+  maxPackageSize?: number;
+  minUnpackedSize?: number;
+  maxUnpackedSize?: number;
+  minFileCount?: number;
   maxResults?: number;
+  candidates?: number;
+  sort?: SortKey;
   changesLimit?: number;
   maxPages?: number;
   requireBin?: boolean;
+  requireTypes?: boolean;
+  moduleFormat?: ModuleFormat;
+  installScripts?: boolean;
+  licenses?: string[];
+  authors?: string[];
+  keywords?: string[];
+  dependsOn?: string[];
+  maxDeps?: number;
+  includeScopes?: string[];
+  excludeScopes?: string[];
+  includeMaintainers?: string[];
+  excludeMaintainers?: string[];
+  allowListFiles?: string[];
+  denyListFiles?: string[];
+  flagTyposquats?: boolean;
+  onlyTyposquats?: boolean;
+  popularListFile?: string;
+  maxJunkScore?: number;
+  registryUrl?: string;
+  changesUrl?: string;
+  packageUrlBase?: string;
+  registryToken?: string;
+  sinceLastRun?: boolean;
+  checkpointName?: string;
+  stateFile?: string;
+  sinceSeq?: string;
+  untilSeq?: string;
+  postReadme?: boolean;
+  watch?: boolean;
+  watchInterval?: number;
+  cacheDir?: string;
+  cacheTtl?: number;
+  maxRetries?: number;
+  requestTimeout?: number;
+  rateLimit?: number;
 }
 
 export function parseCliArgs(args: string[]): CliArgs {
@@ -26,6 +88,51 @@ export function parseCliArgs(args: string[]): CliArgs {
         result.help = true;
         break;
 
+      case "--config":
+        result.configFile = args[++i];
+        break;
+
+      case "--profile":
+      case "-p":
+        result.profile = args[++i];
+        break;
+
+      case "--all-profiles":
+        result.allProfiles = true;
+        break;
+
+      case "--webhook-url":
+        result.webhookUrl = args[++i];
+        break;
+
+      case "--non-interactive":
+      case "--yes":
+      case "-y":
+        result.nonInteractive = true;
+        break;
+
+      case "--csv":
+        result.csv = args[++i];
+        break;
+
+      case "--summarize":
+        result.summarize = args[++i];
+        break;
+
+      case "--no-post":
+        result.post = false;
+        break;
+
+      case "--format":
+      case "-f":
+        result.formats = [...(result.formats ?? []), ...parseList(args[++i]?.toLowerCase())];
+        break;
+
+      case "--output":
+      case "-o":
+        result.output = args[++i];
+        break;
+
       case "--search":
       case "-s":
         result.search = args[++i];
@@ -36,18 +143,67 @@ export function parseCliArgs(args: string[]): CliArgs {
         result.range = args[++i];
         break;
 
+      case "--from":
+        result.from = args[++i];
+        break;
+
+      case "--to":
+        result.to = args[++i];
+        break;
+
+      case "--timezone":
+      case "--tz":
+        result.timeZone = args[++i];
+        break;
+
       case "--partial-match":
         result.partialMatch = args[++i]?.toLowerCase() !== "false";
         break;
 
+      case "--search-mode":
+        result.searchMode = args[++i]?.toLowerCase() as MatchMode;
+        break;
+
       case "--min-js-lines":
         result.minJsLines = parseInt(args[++i], 10);
         break;
 
+      case "--js-lines-metric":
+        result.jsLinesMetric = args[++i]?.toLowerCase() as JsLinesMetric;
+        break;
+
+      case "--scan-capabilities":
+        result.scanCapabilities = true;
+        break;
+
+      case "--max-package-size":
+        result.maxPackageSize = parseFloat(args[++i]);
+        break;
+
+      case "--min-unpacked-size":
+        result.minUnpackedSize = parseByteSize(args[++i]);
+        break;
+
+      case "--max-unpacked-size":
+        result.maxUnpackedSize = parseByteSize(args[++i]);
+        break;
+
+      case "--min-file-count":
+        result.minFileCount = parseInt(args[++i], 10);
+        break;
+
       case "--max-results":
         result.maxResults = parseInt(args[++i], 10);
         break;
 
+      case "--candidates":
+        result.candidates = parseInt(args[++i], 10);
+        break;
+
+      case "--sort":
+        result.sort = args[++i] as SortKey;
+        break;
+
       case "--changes-limit":
         result.changesLimit = parseInt(args[++i], 10);
         break;
@@ -59,12 +215,180 @@ export function parseCliArgs(args: string[]): CliArgs {
       case "--require-bin":
         result.requireBin = true;
         break;
+
+      case "--require-types":
+        result.requireTypes = true;
+        break;
+
+      case "--module-format":
+        result.moduleFormat = args[++i]?.toLowerCase() as ModuleFormat;
+        break;
+
+      case "--has-install-scripts":
+        result.installScripts = true;
+        break;
+
+      case "--no-install-scripts":
+        result.installScripts = false;
+        break;
+
+      case "--license":
+        result.licenses = [...(result.licenses ?? []), ...parseList(args[++i])];
+        break;
+
+      case "--author":
+        result.authors = [...(result.authors ?? []), ...parseList(args[++i])];
+        break;
+
+      case "--keyword":
+        result.keywords = [...(result.keywords ?? []), ...parseList(args[++i])];
+        break;
+
+      case "--depends-on":
+        result.dependsOn = [...(result.dependsOn ?? []), ...parseList(args[++i])];
+        break;
+
+      case "--max-deps":
+        result.maxDeps = parseInt(args[++i], 10);
+        break;
+
+      case "--include-scope":
+        result.includeScopes = [...(result.includeScopes ?? []), ...parseList(args[++i])];
+        break;
+
+      case "--exclude-scope":
+        result.excludeScopes = [...(result.excludeScopes ?? []), ...parseList(args[++i])];
+        break;
+
+      case "--include-maintainer":
+        result.includeMaintainers = [...(result.includeMaintainers ?? []), ...parseList(args[++i])];
+        break;
+
+      case "--exclude-maintainer":
+        result.excludeMaintainers = [...(result.excludeMaintainers ?? []), ...parseList(args[++i])];
+        break;
+
+      case "--allow-list":
+        result.allowListFiles = [...(result.allowListFiles ?? []), args[++i]];
+        break;
+
+      case "--deny-list":
+        result.denyListFiles = [...(result.denyListFiles ?? []), args[++i]];
+        break;
+
+      case "--flag-typosquats":
+        result.flagTyposquats = true;
+        break;
+
+      case "--only-typosquats":
+        result.onlyTyposquats = true;
+        break;
+
+      case "--popular-list":
+        result.popularListFile = args[++i];
+        break;
+
+      case "--max-junk-score":
+        result.maxJunkScore = parseInt(args[++i], 10);
+        break;
+
+      case "--registry":
+        result.registryUrl = args[++i];
+        break;
+
+      case "--changes-url":
+        result.changesUrl = args[++i];
+        break;
+
+      case "--package-url-base":
+        result.packageUrlBase = args[++i];
+        break;
+
+      case "--registry-token":
+        result.registryToken = args[++i];
+        break;
+
+      case "--since-last-run":
+        result.sinceLastRun = true;
+        break;
+
+      case "--checkpoint":
+        result.checkpointName = args[++i];
+        break;
+
+      case "--state-file":
+        result.stateFile = args[++i];
+        break;
+
+      case "--since-seq":
+        result.sinceSeq = args[++i];
+        break;
+
+      case "--until-seq":
+        result.untilSeq = args[++i];
+        break;
+
+      case "--post-readme":
+        result.postReadme = true;
+        break;
+
+      case "--watch":
+      case "-w":
+        result.watch = true;
+        break;
+
+      case "--watch-interval":
+        result.watchInterval = parseInt(args[++i], 10);
+        break;
+
+      case "--cache-dir":
+        result.cacheDir = args[++i];
+        break;
+
+      case "--cache-ttl":
+        result.cacheTtl = parseInt(args[++i], 10);
+        break;
+
+      case "--max-retries":
+        result.maxRetries = parseInt(args[++i], 10);
+        break;
+
+      case "--request-timeout":
+        result.requestTimeout = parseInt(args[++i], 10);
+        break;
+
+      case "--rate-limit":
+        result.rateLimit = parseFloat(args[++i]);
+        break;
     }
   }
 
   return result;
 }
 
+/**
+ * Split a comma-separated flag value into trimmed, non-empty entries.
+ */
+export function parseList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+/**
+ * Parse "5000", "10kb", "1.5MB" (binary units) into bytes; NaN if invalid.
+ */
+export function parseByteSize(value: string | undefined): number {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(b|kb|k|mb|m|gb|g)?\s*$/i.exec(value ?? "");
+  if (!match) {
+    return NaN;
+  }
+  const units: Record<string, number> = { b: 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 };
+  const unit = (match[2] ?? "b").toLowerCase()[0];
+  return Math.round(parseFloat(match[1]) * units[unit]);
+}
+
 export function printHelp(): void {
   console.log(`
 NPM Package Search Tool
@@ -74,22 +398,182 @@ Usage:
 
 Options:
   --help, -h              Show this help message
-  --search, -s <terms>    Search for packages by name or description (AND logic)
-                          Searches both package name and description fields
+  --config <path>         Config file with defaults and profiles (default:
+                          .npm-mafia.json in the working directory, then home)
+  --profile, -p <name>    Use a saved profile from the config file; flags given
+                          on the command line override its settings
+  --all-profiles          Run every profile in turn, each posting to its own
+                          webhookUrl. --output files get the profile name
+                          appended; --output - only works with --format ndjson
+  --webhook-url <url>     Mattermost webhook (overrides profiles and
+                          MATTERMOST_WEBHOOK_URL)
+  --non-interactive, --yes, -y
+                          Never prompt: options not given on the command line use
+                          their defaults (also the default when stdin isn't a TTY)
+  --csv <file>            Process an existing CSV file instead of searching
+  --summarize <which>     AI summaries without prompting: all, none, or a
+                          comma-separated list of package names
+  --no-post               Don't post to Mattermost even if a webhook is set
+  --format, -f <format>   Output format: csv (default), json, ndjson, markdown or
+                          html (a sortable report). Repeatable or comma-separated
+  --output, -o <path>     Where to write results (default: out/npm-packages-<time>.<ext>),
+                          or - for stdout (progress output then goes to stderr).
+                          With several formats, each gets the path's extension swapped
+  --search, -s <query>    Search for packages by name or description
+                          Terms are ANDed; also supports OR, -exclude / NOT,
+                          "quoted phrases", (parentheses) and field qualifiers
+                          name:, desc:, keyword:, author:, readme:
                           Example: --search "react typescript"
+                          Example: --search '(react OR preact) -native name:"ui kit"'
+                          readme: searches the full README (from the registry,
+                          or the tarball if the registry has none)
   --range, -r <range>     Date range for packages (default: 7d)
-                          Formats: 3d (days), 2w (weeks), 1m (months), 2y (years), or plain number
-                          Examples: --range 2w, --range 30, --range 1m
+                          Formats: 12h (hours), 3d (days), 2w (weeks), 1m (calendar months),
+                          2y (calendar years), or plain number of days
+                          Named: today, yesterday, this-week, last-week, this-month,
+                          last-month, this-year, last-year (weeks start on Monday)
+                          Examples: --range 2w, --range 30, --range last-week
+  --from <date>           Start of the window (ISO date or timestamp, e.g. 2024-05-06
+                          or 2024-05-06T09:00); with --range, the range counts from here
+  --to <date>             End of the window (default: now); a plain date includes that
+                          whole day; with --range, the range counts back from here
+  --timezone, --tz <zone> IANA timezone for day/week/month boundaries and plain dates
+                          (default: the system timezone). Example: --tz Europe/Berlin
   --partial-match <bool>  Enable partial word matching (default: true)
                           Example: --partial-match false
+  --search-mode <mode>    How search terms are matched (overrides --partial-match):
+                            partial  substring match (default)
+                            word     whole words only
+                            regex    terms are regular expressions
+                            glob     terms are wildcard patterns (* and ?)
+                                     matched against the whole value
+                          Example: --search-mode glob --search "name:eslint-plugin-*"
+                          Example: --search-mode regex --search "name:/^create-.+-app$/"
   --min-js-lines <num>    Minimum JavaScript lines required in package
                           Example: --min-js-lines 100
+  --js-lines-metric <m>   What --min-js-lines and the JS Lines column measure:
+                            sloc     JS + TS lines of code, without blank
+                                     lines, comments, .d.ts or minified
+                                     files (default)
+                            lines    JS + TS physical lines, same exclusions
+                            js-sloc  JavaScript SLOC only
+                            ts-sloc  TypeScript SLOC only
+                            raw      every line of every JS/TS file
+  --scan-capabilities     Download each matching tarball and report sensitive
+                          capabilities the code uses: child_process, fs writes,
+                          network (http/net/fetch), eval / new Function, env
+                          reads and obfuscated or base64 blobs. Tarballs are
+                          always scanned when --min-js-lines is set
+  --max-package-size <MB> Skip analyzing packages that unpack to more than this
+                          (default: 100). Tarballs are read in memory and the
+                          download is aborted as soon as the limit is crossed
+  --min-unpacked-size <size>
+                          Only show packages whose latest version unpacks to at
+                          least this size (bytes, or with kb/mb units)
+                          Example: --min-unpacked-size 20kb
+  --max-unpacked-size <size>
+                          Only show packages that unpack to at most this size
+  --min-file-count <num>  Only show packages with at least this many files
+                          Size and file count come from registry metadata and
+                          are checked before any tarball is downloaded; packages
+                          published without that metadata are kept
   --max-results <num>     Maximum number of results to return (default: 30)
+  --candidates <num>      Matches to collect before sorting and keeping the best
+                          --max-results of them (default: 5x --max-results)
+  --sort <key>            Result order (default: score)
+                            score      relevance: term hits (name > description),
+                                       JS lines, versions, CLI, recency
+                            published  newest first
+                            versions   most versions first
+                            jsLines    most JS lines first
+                            name       alphabetical
   --changes-limit <num>   Number of packages to fetch per page (default: 200)
   --max-pages <num>       Maximum number of pages to fetch (default: 1000)
                           The tool will automatically page through the changes feed
                           until it finds enough matching packages or hits this limit
   --require-bin           Only show packages with CLI bin entries (executables)
+  --require-types         Only show packages that ship TypeScript types ("types" /
+                          "typings" in package.json, or bundled .d.ts files;
+                          the latter needs the tarball to be downloaded)
+  --module-format <fmt>   Only show packages shipping this module format:
+                          esm, cjs or dual (dual packages also match esm and cjs)
+  --has-install-scripts   Only show packages with preinstall, install, postinstall
+                          or prepare scripts (run automatically on npm install)
+  --no-install-scripts    Hide packages with install scripts
+  --license <ids>         Only show packages with one of these licenses
+                          Comma-separated or repeated; Example: --license MIT,Apache-2.0
+  --author <names>        Only show packages whose author or a maintainer is one
+                          of these npm users/names (comma-separated or repeated)
+  --keyword <keywords>    Only show packages with one of these keywords
+                          (comma-separated or repeated)
+  --depends-on <pkg>[@range]
+                          Only show packages whose dependencies, peerDependencies
+                          or devDependencies include one of these packages,
+                          optionally with a semver range the declared range must
+                          overlap (comma-separated or repeated)
+                          Example: --depends-on eslint@>=9,@babel/core@^7
+  --max-deps <num>        Only show packages with at most this many dependencies
+  --include-scope <scopes>
+                          Only show packages from these scopes (allow-list mode)
+                          Example: --include-scope @ourorg/*,@partner
+  --exclude-scope <scopes>
+                          Hide packages from these scopes
+                          Example: --exclude-scope @types/*
+  --include-maintainer <users>
+                          Only show packages published or maintained by these
+                          npm users (allow-list mode; combines with --include-scope)
+  --exclude-maintainer <users>
+                          Hide packages published or maintained by these npm users
+  --allow-list <file>     Load allowed scopes/users from a file (one per line,
+                          "@scope" entries are scopes, others are npm usernames,
+                          "#" starts a comment)
+  --deny-list <file>      Load denied scopes/users from a file (same format)
+                          Deny entries always win over allow entries
+  --flag-typosquats       Mark packages whose names imitate popular packages
+                          (one typo, look-alike characters such as 0 for o,
+                          swapped separators, or a confusable scope)
+  --only-typosquats       Only show likely typosquats (implies --flag-typosquats)
+  --popular-list <file>   Compare against names from this file (one per line)
+                          instead of the bundled popular package list
+  --max-junk-score <num>  Hide packages whose junk score is above this. Points are
+                          added for an empty or placeholder description (2), a
+                          placeholder name like "test" or "hello-world" (2), a
+                          random-looking name suffix (2), spammy keywords or
+                          description (3), keyword stuffing (2), a tarball under
+                          1 KB (2), a single-file package (1), and no repository
+                          or homepage (1). Example: --max-junk-score 2
+  --registry <url>        Registry base URL for packuments and tarballs
+                          (default: https://registry.npmjs.org)
+  --changes-url <url>     Changes feed URL (default: <registry>/_changes, or the
+                          npm replicate feed when using the public registry)
+  --package-url-base <url>
+                          Base URL for package links (default: https://www.npmjs.com/package)
+  --registry-token <tok>  Bearer token for private registries
+  --since-last-run        Only process changes newer than the checkpoint saved by
+                          the previous run of the same search, then save a new one
+  --checkpoint <name>     Name to save the checkpoint under
+                          (default: derived from the search terms)
+  --state-file <path>     Checkpoint state file (default: out/checkpoints.json)
+  --since-seq <seq>       Only process changes newer than this changes-feed seq
+  --until-seq <seq>       Start from this changes-feed seq instead of the newest
+  --post-readme           Include README excerpts in the Mattermost post
+  --watch, -w             Keep following the changes feed and report new matching
+                          packages as they appear (Ctrl+C to stop). Each match is
+                          posted to Mattermost individually. Combine with
+                          --since-last-run to resume where the last watch stopped.
+                          Takes a trailing --range (e.g. 7d), not a named range
+                          or --from/--to
+  --watch-interval <sec>  Seconds between polls once caught up (default: 30)
+  --cache-dir <path>      Cache packuments and tarballs on disk so reruns over
+                          overlapping date ranges skip the registry
+  --cache-ttl <minutes>   How long cached packuments stay fresh (default: 60)
+                          Tarballs are cached by integrity hash and never expire;
+                          --watch always refetches packuments
+  --max-retries <num>     Retries for failed or rate-limited requests (default: 4)
+  --request-timeout <sec> Max wait for a response, then for each chunk of its
+                          body (default: 30)
+  --rate-limit <num>      Maximum requests per second across all workers
+                          (default: unlimited)
 
 Examples:
   # Interactive mode (prompts for all options)
@@ -104,9 +588,50 @@ Examples:
   # Get packages from last month, max 50 results
   pnpm start --range 1m --max-results 50
 
+  # Weekly digest covering last Monday-Sunday in local time
+  pnpm start --range last-week --tz Europe/Berlin
+
+  # Reproducible rerun of a fixed window
+  pnpm start --from 2024-05-06 --to 2024-05-12
+
+  # Daily incremental scan that picks up where yesterday's run stopped
+  pnpm start --search "react" --since-last-run
+
+  # Security review: new packages imitating popular ones
+  pnpm start --only-typosquats --range 1d
+
+  # Near-real-time alerts for new CLI tools
+  pnpm start --watch --search "cli" --range 1d --require-bin
+
+  # Saved profile, with its range overridden for this run
+  pnpm start --profile react --range 2w
+
+  # Weekly digests: every profile, each to its own channel
+  pnpm start --all-profiles --yes
+
+  # Machine-readable results on stdout
+  pnpm start --yes --search "eslint-plugin" --format ndjson -o - | jq .name
+
+  # Nightly cron job: no prompts, fixed output file, summaries for everything
+  pnpm start --yes --search "react" --range yesterday --summarize all -o out/nightly.csv
+
 Environment:
   MATTERMOST_WEBHOOK_URL  Optional: Webhook URL for posting results to Mattermost
-                          If not set, results will only be displayed locally
+                          If not set, results will only be displayed locally.
+                          A profile's webhookUrl takes precedence
+  NPM_REGISTRY_URL        Same as --registry
+  NPM_REGISTRY_CHANGES_URL
+                          Same as --changes-url
+  NPM_PACKAGE_URL_BASE    Same as --package-url-base
+  NPM_REGISTRY_TOKEN      Same as --registry-token (preferred over the flag,
+                          which is visible in the process list)
+
+Exit codes:
+  0  Success
+  1  Fatal error (invalid arguments, unreadable input, unexpected failure)
+  2  No packages matched
+  3  Partial failure: results were written, but some packages were skipped
+     or some summaries or Mattermost posts failed
 
 Note:
   AI summaries require Claude Code CLI to be installed and authenticated
@@ -0,0 +1,257 @@
+/**
+ * Config file with defaults and named search profiles.
+ *
+ * Looked up as .npm-mafia.json in the working directory, then the home
+ * directory (or wherever --config points):
+ *
+ *   {
+ *     "defaults": { "range": "last-week", "timeZone": "Europe/Berlin" },
+ *     "profiles": {
+ *       "react": {
+ *         "search": "react OR preact",
+ *         "requireTypes": true,
+ *         "webhookUrl": "https://chat.example.com/hooks/abc"
+ *       },
+ *       "security": { "onlyTyposquats": true, "range": "1d" }
+ *     }
+ *   }
+ *
+ * Keys are the CliArgs names. Precedence, lowest first: defaults, the
+ * profile, then anything given on the command line.
+ */
+
+import { access, readFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import { parseByteSize, parseList, type CliArgs } from "./cli-args.js";
+
+export const CONFIG_FILE_NAME = ".npm-mafia.json";
+
+/** Settings a config file can hold (everything but the flags that pick the config itself) */
+export type ProfileArgs = Omit<CliArgs, "help" | "configFile" | "profile" | "allProfiles">;
+
+export interface ConfigFile {
+  path: string;
+  defaults: ProfileArgs;
+  profiles: Record<string, ProfileArgs>;
+}
+
+type ArgKind = "string" | "number" | "boolean" | "list" | "bytes";
+
+/**
+ * Expected value type for every setting. Typed as a full Record so a new
+ * CliArgs field doesn't compile until it's listed here.
+ */
+const ARG_KINDS: Record<keyof ProfileArgs, ArgKind> = {
+  nonInteractive: "boolean",
+  csv: "string",
+  summarize: "string",
+  post: "boolean",
+  output: "string",
+  formats: "list",
+  webhookUrl: "string",
+  search: "string",
+  range: "string",
+  from: "string",
+  to: "string",
+  timeZone: "string",
+  partialMatch: "boolean",
+  searchMode: "string",
+  minJsLines: "number",
+  jsLinesMetric: "string",
+  scanCapabilities: "boolean",
+  maxPackageSize: "number",
+  minUnpackedSize: "bytes",
+  maxUnpackedSize: "bytes",
+  minFileCount: "number",
+  maxResults: "number",
+  candidates: "number",
+  sort: "string",
+  changesLimit: "number",
+  maxPages: "number",
+  requireBin: "boolean",
+  requireTypes: "boolean",
+  moduleFormat: "string",
+  installScripts: "boolean",
+  licenses: "list",
+  authors: "list",
+  keywords: "list",
+  dependsOn: "list",
+  maxDeps: "number",
+  includeScopes: "list",
+  excludeScopes: "list",
+  includeMaintainers: "list",
+  excludeMaintainers: "list",
+  allowListFiles: "list",
+  denyListFiles: "list",
+  flagTyposquats: "boolean",
+  onlyTyposquats: "boolean",
+  popularListFile: "string",
+  maxJunkScore: "number",
+  registryUrl: "string",
+  changesUrl: "string",
+  packageUrlBase: "string",
+  registryToken: "string",
+  sinceLastRun: "boolean",
+  checkpointName: "string",
+  stateFile: "string",
+  sinceSeq: "string",
+  untilSeq: "string",
+  postReadme: "boolean",
+  watch: "boolean",
+  watchInterval: "number",
+  cacheDir: "string",
+  cacheTtl: "number",
+  maxRetries: "number",
+  requestTimeout: "number",
+  rateLimit: "number",
+};
+
+/**
+ * Path of the config file to use: --config if given, else the first
+ * .npm-mafia.json found in the working directory or home directory.
+ */
+export async function findConfigFile(explicitPath?: string): Promise<string | undefined> {
+  if (explicitPath) {
+    return explicitPath;
+  }
+  for (const dir of [process.cwd(), homedir()]) {
+    const path = join(dir, CONFIG_FILE_NAME);
+    try {
+      await access(path);
+      return path;
+    } catch {
+      // Not there, keep looking
+    }
+  }
+  return undefined;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check one settings object against ARG_KINDS. `where` names it in errors.
+ */
+function parseProfileArgs(value: unknown, where: string): ProfileArgs {
+  if (!isPlainObject(value)) {
+    throw new Error(`${where} must be an object`);
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, setting] of Object.entries(value)) {
+    if (!Object.hasOwn(ARG_KINDS, key)) {
+      throw new Error(`${where}: unknown setting "${key}"`);
+    }
+
+    switch (ARG_KINDS[key as keyof ProfileArgs]) {
+      case "string":
+        if (typeof setting !== "string") {
+          throw new Error(`${where}: "${key}" must be a string`);
+        }
+        result[key] = setting;
+        break;
+      case "number":
+        if (typeof setting !== "number" || Number.isNaN(setting)) {
+          throw new Error(`${where}: "${key}" must be a number`);
+        }
+        result[key] = setting;
+        break;
+      case "boolean":
+        if (typeof setting !== "boolean") {
+          throw new Error(`${where}: "${key}" must be true or false`);
+        }
+        result[key] = setting;
+        break;
+      case "list":
+        if (typeof setting === "string") {
+          result[key] = parseList(setting);
+        } else if (Array.isArray(setting) && setting.every((entry) => typeof entry === "string")) {
+          result[key] = setting.flatMap((entry) => parseList(entry));
+        } else {
+          throw new Error(`${where}: "${key}" must be a string or an array of strings`);
+        }
+        break;
+      case "bytes": {
+        const bytes = typeof setting === "number" ? setting : parseByteSize(String(setting));
+        if (Number.isNaN(bytes)) {
+          throw new Error(`${where}: "${key}" must be a size in bytes or like "10kb"`);
+        }
+        result[key] = bytes;
+        break;
+      }
+    }
+  }
+  return result as ProfileArgs;
+}
+
+/**
+ * Read and validate a config file.
+ */
+export async function loadConfigFile(path: string): Promise<ConfigFile> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(path, "utf-8"));
+  } catch (err) {
+    throw new Error(`Could not read config file ${path}: ${(err as Error).message}`);
+  }
+
+  if (!isPlainObject(raw)) {
+    throw new Error(`Config file ${path} must contain a JSON object`);
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (key !== "defaults" && key !== "profiles") {
+      throw new Error(`Config file ${path}: unknown key "${key}" (expected "defaults" and "profiles")`);
+    }
+  }
+
+  const profiles: Record<string, ProfileArgs> = {};
+  if (raw.profiles !== undefined) {
+    if (!isPlainObject(raw.profiles)) {
+      throw new Error(`Config file ${path}: "profiles" must be an object`);
+    }
+    for (const [name, profile] of Object.entries(raw.profiles)) {
+      profiles[name] = parseProfileArgs(profile, `Config file ${path}, profile "${name}"`);
+    }
+  }
+
+  return {
+    path,
+    defaults: raw.defaults === undefined ? {} : parseProfileArgs(raw.defaults, `Config file ${path}, "defaults"`),
+    profiles,
+  };
+}
+
+/**
+ * Effective arguments for a run: config defaults, then the profile (if any),
+ * then the command line. A profile's checkpoint is saved under its own name
+ * unless it sets one.
+ */
+export function applyProfile(
+  config: ConfigFile | undefined,
+  profileName: string | undefined,
+  cliArgs: CliArgs
+): CliArgs {
+  if (!config) {
+    if (profileName !== undefined) {
+      throw new Error(`Profile "${profileName}" requested but no ${CONFIG_FILE_NAME} was found`);
+    }
+    return cliArgs;
+  }
+
+  let profile: ProfileArgs = {};
+  if (profileName !== undefined) {
+    if (!Object.hasOwn(config.profiles, profileName)) {
+      const known = Object.keys(config.profiles);
+      throw new Error(
+        `Unknown profile "${profileName}" in ${config.path}` +
+          (known.length > 0 ? ` (available: ${known.join(", ")})` : " (it defines no profiles)")
+      );
+    }
+    profile = { checkpointName: profileName, ...config.profiles[profileName] };
+  }
+
+  return { ...config.defaults, ...profile, ...cliArgs };
+}
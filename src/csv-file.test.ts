@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { generateCsv, parseCsv, parseCsvFile } from "./csv-file.js";
+import type { PackageInfo } from "./get-recent-npm.js";
+import { resolveRegistryConfig } from "./registry-config.js";
+import { emptySourceMetrics } from "./source-metrics.js";
+
+const registry = resolveRegistryConfig({}, {});
+
+function fullPackage(): PackageInfo {
+  const sourceMetrics = emptySourceMetrics();
+  sourceMetrics.js = { files: 3, lines: 120, sloc: 98 };
+  return {
+    name: "@scope/left-pad",
+    version: "1.2.3",
+    description: 'Pads strings, "fast",\nand with  edge whitespace ',
+    publishedAt: new Date("2024-05-06T09:30:00.000Z"),
+    npmUrl: "https://www.npmjs.com/package/@scope/left-pad",
+    numberOfVersions: 4,
+    jsLines: 98,
+    sourceMetrics,
+    hasBin: true,
+    moduleFormat: "dual",
+    hasTypes: true,
+    keywords: ["pad", "semi;colon", "comma,separated", "back\\slash"],
+    author: "Jane Doe",
+    publisher: "jdoe",
+    maintainers: ["jdoe", "other"],
+    license: "MIT OR Apache-2.0",
+    repositoryUrl: "https://github.com/jdoe/left-pad",
+    homepage: "https://left-pad.example.com",
+    engines: { node: ">=18", npm: ">=9 ; <11" },
+    unpackedSize: 2048,
+    fileCount: 7,
+    dependencies: { "is-number": "^7.0.0", alias: "npm:real@1;2" },
+    peerDependencies: { react: "^18,^19" },
+    devDependencies: { typescript: "^5.0.0" },
+    installScripts: { postinstall: "node setup.js; echo done" },
+    capabilities: { network: ["lib/a;b.js", "c,d.js"], env: ["index.js"] },
+    typosquatOf: "left-pad",
+    typosquatTechnique: "scope",
+    junkScore: 2,
+    junkReasons: ["short README", "many keywords; mostly spam"],
+    readmeExcerpt: "# left-pad\r\nPads things.",
+    score: 0.75,
+    aiSummary: "A string padding helper.",
+  };
+}
+
+describe("parseCsv", () => {
+  it("splits quoted fields, escaped quotes and line breaks", () => {
+    const records = parseCsv('a,"b,c","say ""hi"""\r\n"multi\nline",x,\r\n');
+    assert.deepEqual(
+      records.map((record) => record.fields),
+      [
+        ["a", "b,c", 'say "hi"'],
+        ["multi\nline", "x", ""],
+      ]
+    );
+  });
+
+  it("reports the file line each record starts on", () => {
+    const records = parseCsv('h1,h2\n"two\nlines",x\nlast,y\n');
+    assert.deepEqual(
+      records.map((record) => record.line),
+      [1, 2, 4]
+    );
+  });
+});
+
+describe("generateCsv and parseCsvFile", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "csv-file-test-"));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function roundTrip(packages: PackageInfo[]): Promise<PackageInfo[]> {
+    const path = join(dir, "packages.csv");
+    await writeFile(path, generateCsv(packages));
+    return parseCsvFile(path, registry);
+  }
+
+  it("round-trips every column", async () => {
+    const pkg = fullPackage();
+    assert.deepEqual(await roundTrip([pkg]), [pkg]);
+  });
+
+  it("writes the same file again after loading it", async () => {
+    const csv = generateCsv([fullPackage()]);
+    assert.equal(generateCsv(await roundTrip([fullPackage()])), csv);
+  });
+
+  it("keeps unknown columns", async () => {
+    const pkg = { ...fullPackage(), extraColumns: { "Reviewed By": "sam" } };
+    const [loaded] = await roundTrip([pkg]);
+    assert.deepEqual(loaded.extraColumns, { "Reviewed By": "sam" });
+  });
+
+  it("loads a file with headers but no rows as no packages", async () => {
+    assert.deepEqual(await roundTrip([]), []);
+  });
+
+  it("rejects an empty file", async () => {
+    const path = join(dir, "empty.csv");
+    await writeFile(path, "");
+    await assert.rejects(parseCsvFile(path, registry), /CSV file is empty/);
+  });
+
+  it("rejects a schema version newer than it supports", async () => {
+    const path = join(dir, "future.csv");
+    await writeFile(path, "# schema-version: 999\r\nName,Version\r\n");
+    await assert.rejects(parseCsvFile(path, registry), /newer than this tool supports/);
+  });
+
+  it("names the line of an invalid value", async () => {
+    const path = join(dir, "invalid.csv");
+    await writeFile(path, 'Name,Version,Description,Published\r\na,1.0.0,"two\nlines",soon\r\n');
+    await assert.rejects(parseCsvFile(path, registry), /^Error: Line 2: invalid Published value "soon"$/);
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * CSV export of search results, and loading a previous export back in
+ * (e.g. to add AI summaries and repost it).
+ *
+ * The format is RFC 4180: CRLF line endings, fields quoted when they contain
+ * commas, quotes, line breaks or edge whitespace. The first line is a
+ * "# schema-version: N" marker; files without it are the older date-only,
+ * summary-less layout, which still loads. Columns are matched by header, and
+ * columns this version doesn't know are kept on the package and written back
+ * out, so a CSV can pass through several runs (and spreadsheet edits) without
+ * losing data.
+ */
+
+import { readFile } from "fs/promises";
+import type { PackageInfo } from "./get-recent-npm.js";
+import type { ModuleFormat } from "./module-format.js";
+import {
+  formatEngines,
+  formatScripts,
+  parseEngines,
+  parseScripts,
+} from "./package-metadata.js";
+import { formatCapabilities, parseCapabilities } from "./capability-scan.js";
+import {
+  dependencyCount,
+  formatDependencies,
+  parseDependencies,
+} from "./dependency-filter.js";
+import { joinList, splitList } from "./csv-list.js";
+import { emptySourceMetrics, type LanguageMetrics, type SourceMetrics } from "./source-metrics.js";
+import type { TyposquatTechnique } from "./typosquat.js";
+import { packageWebUrl, type RegistryConfig } from "./registry-config.js";
+
+export const CSV_SCHEMA_VERSION = 2;
+
+const SCHEMA_LINE = /^#\s*schema-version:\s*(\d+)\s*$/i;
+
+interface CsvColumn {
+  header: string;
+  write: (pkg: PackageInfo) => string;
+  /** Set this column's value on the package being read; derived columns have none */
+  read?: (value: string, pkg: PackageInfo) => void;
+  /** Only written when this returns true for the package list */
+  when?: (packages: PackageInfo[]) => boolean;
+}
+
+function list(values: string[] | undefined): string {
+  return joinList(values ?? []);
+}
+
+function yesNo(value: boolean | undefined): string {
+  return value === undefined ? "" : value ? "Yes" : "No";
+}
+
+function parseYesNo(value: string): boolean | undefined {
+  return value ? value === "Yes" : undefined;
+}
+
+function parseNumber(value: string): number | undefined {
+  if (!value.trim()) {
+    return undefined;
+  }
+  const number = Number(value);
+  return Number.isNaN(number) ? undefined : number;
+}
+
+function optional(value: string): string | undefined {
+  return value || undefined;
+}
+
+type MetricsLanguage = keyof SourceMetrics;
+
+const METRICS_LABELS: Record<MetricsLanguage, string> = {
+  js: "JS",
+  ts: "TS",
+  dts: "Declaration",
+  minified: "Minified",
+};
+
+const METRICS_FIELDS: { field: keyof LanguageMetrics; label: string }[] = [
+  { field: "files", label: "Files" },
+  { field: "lines", label: "Physical Lines" },
+  { field: "sloc", label: "SLOC" },
+];
+
+/** "JS Files", "JS Physical Lines", "JS SLOC", "TS Files", ... */
+const SOURCE_METRICS_COLUMNS: CsvColumn[] = (Object.keys(METRICS_LABELS) as MetricsLanguage[]).flatMap(
+  (language) =>
+    METRICS_FIELDS.map(({ field, label }) => ({
+      header: `${METRICS_LABELS[language]} ${label}`,
+      write: (pkg: PackageInfo) => pkg.sourceMetrics?.[language][field]?.toString() ?? "",
+      read: (value: string, pkg: PackageInfo) => {
+        const number = parseNumber(value);
+        if (number !== undefined) {
+          pkg.sourceMetrics ??= emptySourceMetrics();
+          pkg.sourceMetrics[language][field] = number;
+        }
+      },
+      when: (packages: PackageInfo[]) => packages.some((pkg) => pkg.sourceMetrics !== undefined),
+    }))
+);
+
+const COLUMNS: CsvColumn[] = [
+  { header: "Name", write: (pkg) => pkg.name, read: (v, pkg) => (pkg.name = v) },
+  { header: "Version", write: (pkg) => pkg.version, read: (v, pkg) => (pkg.version = v) },
+  { header: "Description", write: (pkg) => pkg.description, read: (v, pkg) => (pkg.description = v) },
+  {
+    header: "Published",
+    write: (pkg) => pkg.publishedAt.toISOString(),
+    read: (v, pkg) => {
+      // Older files hold just the date
+      const date = new Date(v);
+      if (Number.isNaN(date.getTime())) {
+        throw new Error(`invalid Published value "${v}"`);
+      }
+      pkg.publishedAt = date;
+    },
+  },
+  {
+    header: "Versions",
+    write: (pkg) => pkg.numberOfVersions.toString(),
+    read: (v, pkg) => (pkg.numberOfVersions = parseNumber(v) ?? 1),
+  },
+  { header: "Has CLI", write: (pkg) => (pkg.hasBin ? "Yes" : "No"), read: (v, pkg) => (pkg.hasBin = v === "Yes") },
+  {
+    header: "JS Lines",
+    write: (pkg) => pkg.jsLines?.toString() ?? "",
+    read: (v, pkg) => (pkg.jsLines = parseNumber(v)),
+    when: (packages) => packages.some((pkg) => pkg.jsLines !== undefined),
+  },
+  ...SOURCE_METRICS_COLUMNS,
+  {
+    header: "Module Format",
+    write: (pkg) => pkg.moduleFormat ?? "",
+    read: (v, pkg) => (pkg.moduleFormat = optional(v) as ModuleFormat | undefined),
+  },
+  { header: "Types", write: (pkg) => yesNo(pkg.hasTypes), read: (v, pkg) => (pkg.hasTypes = parseYesNo(v)) },
+  { header: "Keywords", write: (pkg) => list(pkg.keywords), read: (v, pkg) => (pkg.keywords = splitList(v)) },
+  { header: "Author", write: (pkg) => pkg.author ?? "", read: (v, pkg) => (pkg.author = optional(v)) },
+  { header: "Publisher", write: (pkg) => pkg.publisher ?? "", read: (v, pkg) => (pkg.publisher = optional(v)) },
+  {
+    header: "Maintainers",
+    write: (pkg) => list(pkg.maintainers),
+    read: (v, pkg) => (pkg.maintainers = splitList(v)),
+  },
+  { header: "License", write: (pkg) => pkg.license ?? "", read: (v, pkg) => (pkg.license = optional(v)) },
+  {
+    header: "Repository",
+    write: (pkg) => pkg.repositoryUrl ?? "",
+    read: (v, pkg) => (pkg.repositoryUrl = optional(v)),
+  },
+  { header: "Homepage", write: (pkg) => pkg.homepage ?? "", read: (v, pkg) => (pkg.homepage = optional(v)) },
+  {
+    header: "Engines",
+    write: (pkg) => formatEngines(pkg.engines),
+    read: (v, pkg) => (pkg.engines = parseEngines(v)),
+  },
+  {
+    header: "Unpacked Size",
+    write: (pkg) => pkg.unpackedSize?.toString() ?? "",
+    read: (v, pkg) => (pkg.unpackedSize = parseNumber(v)),
+  },
+  {
+    header: "File Count",
+    write: (pkg) => pkg.fileCount?.toString() ?? "",
+    read: (v, pkg) => (pkg.fileCount = parseNumber(v)),
+  },
+  { header: "Dependency Count", write: (pkg) => dependencyCount(pkg).toString() },
+  {
+    header: "Dependencies",
+    write: (pkg) => formatDependencies(pkg.dependencies),
+    read: (v, pkg) => (pkg.dependencies = parseDependencies(v)),
+  },
+  {
+    header: "Peer Dependencies",
+    write: (pkg) => formatDependencies(pkg.peerDependencies),
+    read: (v, pkg) => (pkg.peerDependencies = parseDependencies(v)),
+  },
+  {
+    header: "Dev Dependencies",
+    write: (pkg) => formatDependencies(pkg.devDependencies),
+    read: (v, pkg) => (pkg.devDependencies = parseDependencies(v)),
+  },
+  {
+    header: "Install Scripts",
+    write: (pkg) => formatScripts(pkg.installScripts),
+    read: (v, pkg) => (pkg.installScripts = parseScripts(v)),
+  },
+  {
+    header: "Capabilities",
+    write: (pkg) => formatCapabilities(pkg.capabilities),
+    read: (v, pkg) => (pkg.capabilities = parseCapabilities(v)),
+  },
+  {
+    header: "Typosquat Of",
+    write: (pkg) => pkg.typosquatOf ?? "",
+    read: (v, pkg) => (pkg.typosquatOf = optional(v)),
+  },
+  {
+    header: "Typosquat Technique",
+    write: (pkg) => pkg.typosquatTechnique ?? "",
+    read: (v, pkg) => (pkg.typosquatTechnique = optional(v) as TyposquatTechnique | undefined),
+  },
+  {
+    header: "Junk Score",
+    write: (pkg) => pkg.junkScore?.toString() ?? "",
+    read: (v, pkg) => (pkg.junkScore = parseNumber(v)),
+  },
+  {
+    header: "Junk Reasons",
+    write: (pkg) => list(pkg.junkReasons),
+    read: (v, pkg) => (pkg.junkReasons = splitList(v)),
+  },
+  {
+    header: "README Excerpt",
+    write: (pkg) => pkg.readmeExcerpt ?? "",
+    read: (v, pkg) => (pkg.readmeExcerpt = optional(v)),
+  },
+  { header: "Score", write: (pkg) => pkg.score?.toString() ?? "", read: (v, pkg) => (pkg.score = parseNumber(v)) },
+  {
+    header: "AI Summary",
+    write: (pkg) => pkg.aiSummary ?? "",
+    read: (v, pkg) => (pkg.aiSummary = optional(v)),
+  },
+  { header: "URL", write: (pkg) => pkg.npmUrl, read: (v, pkg) => (pkg.npmUrl = v) },
+];
+
+const KNOWN_HEADERS = new Set(COLUMNS.map((column) => column.header));
+
+export interface CsvRecord {
+  fields: string[];
+  /** Line of the file the record starts on (1-based) */
+  line: number;
+}
+
+/**
+ * Split CSV text into records of fields. Handles quoted fields containing
+ * commas, quotes ("") and line breaks, CRLF/LF/CR line endings and a UTF-8
+ * BOM. Blank lines are skipped.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let quotedField = false;
+  let line = 1;
+  let recordLine = 1;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  function endRecord(): void {
+    record.push(field);
+    if (record.length > 1 || record[0] !== "" || quotedField) {
+      records.push({ fields: record, line: recordLine });
+    }
+    record = [];
+    field = "";
+    quotedField = false;
+  }
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+        if (char === "\n" || (char === "\r" && text[i + 1] !== "\n")) {
+          line++;
+        }
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+      quotedField = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\r" || char === "\n") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Unterminated quoted field at end of CSV");
+  }
+  if (field !== "" || record.length > 0 || quotedField) {
+    endRecord();
+  }
+
+  return records;
+}
+
+/**
+ * Quote a field if it needs it: separators, quotes, line breaks, or leading or
+ * trailing whitespace that spreadsheet tools would otherwise trim.
+ */
+function escapeCsv(value: string): string {
+  if (/[",\r\n]/.test(value) || value !== value.trim()) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Load packages from a CSV export. A file with headers but no rows (the export
+ * of a search that found nothing) gives an empty list.
+ */
+export async function parseCsvFile(
+  filePath: string,
+  registry: RegistryConfig
+): Promise<PackageInfo[]> {
+  const records = parseCsv(await readFile(filePath, "utf-8"));
+
+  // Spreadsheet tools may pad the marker line with empty fields when saving
+  const first = records[0]?.fields ?? [];
+  const schemaMatch = first.slice(1).every((value) => value === "") ? SCHEMA_LINE.exec(first[0] ?? "") : null;
+  if (schemaMatch) {
+    const version = parseInt(schemaMatch[1], 10);
+    if (version > CSV_SCHEMA_VERSION) {
+      throw new Error(
+        `CSV schema version ${version} is newer than this tool supports (${CSV_SCHEMA_VERSION})`
+      );
+    }
+    records.shift();
+  }
+
+  if (records.length === 0) {
+    throw new Error("CSV file is empty");
+  }
+
+  const headers = records[0].fields.map((header) => header.trim());
+  const packages: PackageInfo[] = [];
+
+  if (!headers.includes("Name") || !headers.includes("Version")) {
+    throw new Error("CSV must have Name and Version columns");
+  }
+
+  // Columns are looked up by header so older CSVs without newer columns still load
+  const columnsByHeader = new Map(COLUMNS.map((column) => [column.header, column]));
+
+  for (let row = 1; row < records.length; row++) {
+    const { fields: values, line } = records[row];
+    const pkg: PackageInfo = {
+      name: "",
+      version: "",
+      description: "",
+      publishedAt: new Date(),
+      npmUrl: "",
+      numberOfVersions: 1,
+      hasBin: false,
+      keywords: [],
+      maintainers: [],
+      junkReasons: [],
+    };
+
+    headers.forEach((header, index) => {
+      const value = values[index] ?? "";
+      const column = columnsByHeader.get(header);
+
+      if (!column) {
+        if (header && value !== "") {
+          pkg.extraColumns ??= {};
+          pkg.extraColumns[header] = value;
+        }
+        return;
+      }
+
+      if (column.read && value !== "") {
+        try {
+          column.read(value, pkg);
+        } catch (err) {
+          throw new Error(`Line ${line}: ${(err as Error).message}`);
+        }
+      }
+    });
+
+    pkg.npmUrl ||= packageWebUrl(registry, pkg.name);
+    packages.push(pkg);
+  }
+
+  return packages;
+}
+
+export function generateCsv(packages: PackageInfo[]): string {
+  const columns = COLUMNS.filter((column) => !column.when || column.when(packages));
+
+  // Unknown columns from a loaded CSV go last, in the order first seen
+  const extraHeaders: string[] = [];
+  for (const pkg of packages) {
+    for (const header of Object.keys(pkg.extraColumns ?? {})) {
+      if (!KNOWN_HEADERS.has(header) && !extraHeaders.includes(header)) {
+        extraHeaders.push(header);
+      }
+    }
+  }
+
+  const headers = [...columns.map((column) => column.header), ...extraHeaders];
+  const rows = packages.map((pkg) => [
+    ...columns.map((column) => column.write(pkg)),
+    ...extraHeaders.map((header) => pkg.extraColumns?.[header] ?? ""),
+  ]);
+
+  return [
+    `# schema-version: ${CSV_SCHEMA_VERSION}`,
+    ...[headers, ...rows].map((row) => row.map(escapeCsv).join(",")),
+    "",
+  ].join("\r\n");
+}
@@ -0,0 +1,36 @@
+/**
+ * Lists packed into a single CSV field, e.g. "react; react-dom" or, one level
+ * deeper, "network: lib/a.js, lib/b.js; env: index.js". A backslash escapes
+ * "\", ";" and "," inside an entry, so any value survives a round trip.
+ */
+
+export type ListSeparator = ";" | ",";
+
+/** Escape an entry so its ";" and "," aren't read as separators */
+export function escapeListEntry(value: string): string {
+  return value.replace(/[\\;,]/g, "\\$&");
+}
+
+/**
+ * Escape each entry and join them with "; " (or ", ").
+ */
+export function joinList(values: string[], separator: ListSeparator = ";"): string {
+  return values.map(escapeListEntry).join(`${separator} `);
+}
+
+/**
+ * Split on unescaped separators into trimmed, non-empty, unescaped entries.
+ * With `raw`, entries keep their escapes so they can be split again.
+ * Backslashes before anything else (older files) are kept as-is.
+ */
+export function splitList(
+  value: string,
+  separator: ListSeparator = ";",
+  { raw = false }: { raw?: boolean } = {}
+): string[] {
+  const entry = new RegExp(`(?:\\\\[\\s\\S]?|[^${separator}\\\\])+`, "g");
+  return (value.match(entry) ?? [])
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .map((part) => (raw ? part : part.replace(/\\([\\;,])/g, "$1")));
+}
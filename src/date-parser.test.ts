@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { resolveDateWindow, type DateWindow } from "./date-parser.js";
+
+// A Wednesday
+const now = new Date("2024-05-15T10:00:00.000Z");
+
+function iso(window: DateWindow): { from: string; to: string } {
+  return { from: window.from.toISOString(), to: window.to.toISOString() };
+}
+
+describe("resolveDateWindow", () => {
+  it("defaults to the last 7 days", () => {
+    const window = resolveDateWindow({ timeZone: "UTC" }, now);
+    assert.deepEqual(iso(window), { from: "2024-05-08T10:00:00.000Z", to: "2024-05-15T10:00:00.000Z" });
+    assert.equal(window.label, "last 7d");
+  });
+
+  it("counts hours exactly", () => {
+    const window = resolveDateWindow({ range: "6h", timeZone: "UTC" }, now);
+    assert.deepEqual(iso(window), { from: "2024-05-15T04:00:00.000Z", to: "2024-05-15T10:00:00.000Z" });
+  });
+
+  it("resolves named ranges to calendar periods starting on Monday", () => {
+    assert.deepEqual(iso(resolveDateWindow({ range: "last-week", timeZone: "UTC" }, now)), {
+      from: "2024-05-06T00:00:00.000Z",
+      to: "2024-05-13T00:00:00.000Z",
+    });
+    assert.deepEqual(iso(resolveDateWindow({ range: "Today", timeZone: "UTC" }, now)), {
+      from: "2024-05-15T00:00:00.000Z",
+      to: "2024-05-16T00:00:00.000Z",
+    });
+    assert.deepEqual(iso(resolveDateWindow({ range: "last-month", timeZone: "UTC" }, now)), {
+      from: "2024-04-01T00:00:00.000Z",
+      to: "2024-05-01T00:00:00.000Z",
+    });
+  });
+
+  it("puts calendar boundaries at midnight in the timezone", () => {
+    const window = resolveDateWindow({ range: "yesterday", timeZone: "Europe/Berlin" }, now);
+    assert.deepEqual(iso(window), { from: "2024-05-13T22:00:00.000Z", to: "2024-05-14T22:00:00.000Z" });
+    assert.equal(window.timeZone, "Europe/Berlin");
+  });
+
+  it("keeps the wall-clock time when a month range crosses a DST change", () => {
+    const window = resolveDateWindow(
+      { range: "1m", timeZone: "Europe/Berlin" },
+      new Date("2024-04-15T10:00:00.000Z")
+    );
+    // 12:00 CEST back to 12:00 CET
+    assert.equal(window.from.toISOString(), "2024-03-15T11:00:00.000Z");
+  });
+
+  it("clamps month arithmetic to the end of shorter months", () => {
+    const window = resolveDateWindow({ range: "1m", timeZone: "UTC" }, new Date("2024-03-31T12:00:00.000Z"));
+    assert.equal(window.from.toISOString(), "2024-02-29T12:00:00.000Z");
+  });
+
+  it("includes the whole day of a date-only --to", () => {
+    const window = resolveDateWindow({ from: "2024-05-01", to: "2024-05-03", timeZone: "UTC" }, now);
+    assert.deepEqual(iso(window), { from: "2024-05-01T00:00:00.000Z", to: "2024-05-04T00:00:00.000Z" });
+    assert.equal(window.label, "2024-05-01 to 2024-05-03");
+  });
+
+  it("runs --from up to now without --to", () => {
+    const window = resolveDateWindow({ from: "2024-05-14T09:30", timeZone: "UTC" }, now);
+    assert.deepEqual(iso(window), { from: "2024-05-14T09:30:00.000Z", to: "2024-05-15T10:00:00.000Z" });
+    assert.equal(window.label, "since 2024-05-14T09:30");
+  });
+
+  it("counts a range forward from --from and back from --to", () => {
+    assert.deepEqual(iso(resolveDateWindow({ range: "2w", from: "2024-05-01", timeZone: "UTC" }, now)), {
+      from: "2024-05-01T00:00:00.000Z",
+      to: "2024-05-15T00:00:00.000Z",
+    });
+
+    const window = resolveDateWindow({ range: "3d", to: "2024-05-10", timeZone: "UTC" }, now);
+    assert.deepEqual(iso(window), { from: "2024-05-08T00:00:00.000Z", to: "2024-05-11T00:00:00.000Z" });
+    assert.equal(window.label, "3d until 2024-05-10");
+  });
+
+  it("honours an explicit UTC offset over the timezone", () => {
+    const window = resolveDateWindow(
+      { from: "2024-05-01T00:00+02:00", to: "2024-05-02T00:00Z", timeZone: "America/New_York" },
+      now
+    );
+    assert.deepEqual(iso(window), { from: "2024-04-30T22:00:00.000Z", to: "2024-05-02T00:00:00.000Z" });
+  });
+
+  it("rejects invalid combinations and values", () => {
+    assert.throws(
+      () => resolveDateWindow({ range: "last-week", from: "2024-05-01", timeZone: "UTC" }, now),
+      /can't be combined with --from\/--to/
+    );
+    assert.throws(
+      () => resolveDateWindow({ range: "1d", from: "2024-05-01", to: "2024-05-02", timeZone: "UTC" }, now),
+      /at most two/
+    );
+    assert.throws(
+      () => resolveDateWindow({ from: "2024-05-03", to: "2024-05-01", timeZone: "UTC" }, now),
+      /Empty date window/
+    );
+    assert.throws(() => resolveDateWindow({ from: "2024-02-30", timeZone: "UTC" }, now), /Invalid date/);
+    assert.throws(() => resolveDateWindow({ timeZone: "Mars/Olympus_Mons" }, now));
+  });
+});
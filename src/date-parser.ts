@@ -1,22 +1,74 @@
 /**
- * Parse flexible date range formats into days.
+ * Parse flexible date range formats.
  * Supported formats:
+ *  - "12h" = 12 hours
  *  - "3d" = 3 days
  *  - "2w" = 2 weeks (14 days)
- *  - "1m" = 1 month (30 days)
- *  - "1y" = 1 year (365 days)
+ *  - "1m" = 1 calendar month
+ *  - "1y" = 1 calendar year
  *  - "14" = 14 days (plain number)
+ *  - named ranges: today, yesterday, this-week, last-week, this-month,
+ *    last-month, this-year, last-year (weeks start on Monday)
+ *
+ * Relative ranges count back from the end of the window, in calendar terms:
+ * "1m" on March 31 starts on February 28/29, and day/week/month boundaries are
+ * taken in the chosen timezone (default: the system's), so DST changes and
+ * short months don't shift a window. Absolute windows come from --from/--to.
  */
 
 const DAYS_PER_WEEK = 7;
 const DAYS_PER_MONTH = 30;
 const DAYS_PER_YEAR = 365;
 
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+export type DateRangeUnit = "h" | "d" | "w" | "m" | "y";
+
+export const NAMED_RANGES = [
+  "today",
+  "yesterday",
+  "this-week",
+  "last-week",
+  "this-month",
+  "last-month",
+  "this-year",
+  "last-year",
+] as const;
+
+export type NamedRange = (typeof NAMED_RANGES)[number];
+
 export interface ParsedDateRange {
+  amount: number;
+  unit: DateRangeUnit;
+  /** Approximate length in days (30-day months, 365-day years), for display */
   days: number;
   original: string;
 }
 
+/**
+ * A half-open publish window: from <= publishedAt < to.
+ */
+export interface DateWindow {
+  from: Date;
+  to: Date;
+  /** IANA timezone the boundaries were computed in */
+  timeZone: string;
+  /** How the window was specified, for logs */
+  label: string;
+}
+
+export interface DateWindowSpec {
+  /** Relative ("2w") or named ("last-week") range */
+  range?: string;
+  /** ISO date or timestamp; the window start */
+  from?: string;
+  /** ISO date (inclusive) or timestamp (exclusive); the window end (default: now) */
+  to?: string;
+  /** IANA timezone for calendar boundaries and date-only values (default: system) */
+  timeZone?: string;
+}
+
 export function parseDateRange(input: string): ParsedDateRange {
   const trimmed = input.trim();
 
@@ -27,24 +79,23 @@ export function parseDateRange(input: string): ParsedDateRange {
   // Try to parse as plain number first
   const plainNumber = Number(trimmed);
   if (!Number.isNaN(plainNumber) && plainNumber > 0) {
-    return {
-      days: Math.floor(plainNumber),
-      original: trimmed,
-    };
+    const days = Math.floor(plainNumber);
+    return { amount: days, unit: "d", days, original: trimmed };
   }
 
-  // Parse format like "2w", "3d", "1m", "2y"
-  const match = trimmed.match(/^(\d+)\s*([dwmy])$/i);
+  // Parse format like "12h", "2w", "3d", "1m", "2y"
+  const match = trimmed.match(/^(\d+)\s*([hdwmy])$/i);
 
   if (!match) {
     throw new Error(
       `Invalid date range format: "${trimmed}". ` +
-      `Valid formats: "3d" (days), "2w" (weeks), "1m" (months), "2y" (years), or plain number like "14"`
+      `Valid formats: "12h" (hours), "3d" (days), "2w" (weeks), "1m" (months), "2y" (years), ` +
+      `plain number like "14", or one of: ${NAMED_RANGES.join(", ")}`
     );
   }
 
   const amount = parseInt(match[1], 10);
-  const unit = match[2].toLowerCase();
+  const unit = match[2].toLowerCase() as DateRangeUnit;
 
   if (amount <= 0) {
     throw new Error(`Date range amount must be positive, got: ${amount}`);
@@ -52,6 +103,9 @@ export function parseDateRange(input: string): ParsedDateRange {
 
   let days: number;
   switch (unit) {
+    case "h":
+      days = amount / 24;
+      break;
     case "d":
       days = amount;
       break;
@@ -69,15 +123,364 @@ export function parseDateRange(input: string): ParsedDateRange {
   }
 
   return {
+    amount,
+    unit,
     days,
     original: trimmed,
   };
 }
 
+export function isNamedRange(input: string): input is NamedRange {
+  return (NAMED_RANGES as readonly string[]).includes(input.trim().toLowerCase());
+}
+
+/**
+ * Check a range string without resolving it (for prompts and arg validation).
+ */
+export function validateDateRange(input: string): void {
+  if (!isNamedRange(input)) {
+    parseDateRange(input);
+  }
+}
+
+/**
+ * Check that an IANA timezone name is known to the runtime.
+ */
+export function validateTimeZone(timeZone: string): void {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+  } catch {
+    throw new Error(`Unknown timezone "${timeZone}" (expected an IANA name like Europe/Berlin or UTC)`);
+  }
+}
+
+export function systemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+interface WallTime {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Wall-clock time of an instant in a timezone.
+ */
+function wallTime(date: Date, timeZone: string): WallTime {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== "literal") {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    millisecond: date.getUTCMilliseconds(),
+  };
+}
+
+/**
+ * Wall time as if it were UTC; Date.UTC also normalizes out-of-range fields
+ * (day 0, month 13), which the calendar arithmetic below relies on.
+ */
+function wallTimeAsUtc(wall: WallTime): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second, wall.millisecond);
+}
+
+/**
+ * The instant a wall-clock time occurs in a timezone. Times skipped by a DST
+ * change resolve to the instant just after the gap.
+ */
+function fromWallTime(wall: WallTime, timeZone: string): Date {
+  const asUtc = wallTimeAsUtc(wall);
+  let instant = asUtc;
+  // The offset at the guess can differ from the offset at the answer near DST
+  // changes; two corrections settle it
+  for (let i = 0; i < 2; i++) {
+    const offset = wallTimeAsUtc(wallTime(new Date(instant), timeZone)) - instant;
+    instant = asUtc - offset;
+  }
+  return new Date(instant);
+}
+
+function startOfDay(wall: WallTime): WallTime {
+  return { ...wall, hour: 0, minute: 0, second: 0, millisecond: 0 };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Shift by whole months, clamping the day to the target month's length.
+ */
+function addMonths(wall: WallTime, months: number): WallTime {
+  const index = wall.year * 12 + (wall.month - 1) + months;
+  const year = Math.floor(index / 12);
+  const month = (index % 12) + 1;
+  return { ...wall, year, month, day: Math.min(wall.day, daysInMonth(year, month)) };
+}
+
+/**
+ * Normalize a wall time whose fields may be out of range (day 0, day 32).
+ */
+function normalizeWall(wall: WallTime): WallTime {
+  const date = new Date(wallTimeAsUtc(wall));
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+    millisecond: date.getUTCMilliseconds(),
+  };
+}
+
+function addDays(wall: WallTime, days: number): WallTime {
+  return normalizeWall({ ...wall, day: wall.day + days });
+}
+
+/**
+ * Move `date` by a relative range: sign -1 gives the start of a range ending
+ * at `date`, +1 the end of a range starting there.
+ */
+function shiftByRange(range: ParsedDateRange, date: Date, timeZone: string, sign: 1 | -1): Date {
+  const amount = sign * range.amount;
+  if (range.unit === "h") {
+    return new Date(date.getTime() + amount * MS_PER_HOUR);
+  }
+  const wall = wallTime(date, timeZone);
+  switch (range.unit) {
+    case "d":
+      return fromWallTime(addDays(wall, amount), timeZone);
+    case "w":
+      return fromWallTime(addDays(wall, amount * DAYS_PER_WEEK), timeZone);
+    case "m":
+      return fromWallTime(addMonths(wall, amount), timeZone);
+    case "y":
+      return fromWallTime(addMonths(wall, amount * 12), timeZone);
+  }
+}
+
+/**
+ * Boundaries of a named range containing (or just before) `now`.
+ */
+function namedWindow(name: NamedRange, now: Date, timeZone: string): { from: WallTime; to: WallTime } {
+  const today = startOfDay(wallTime(now, timeZone));
+  // getUTCDay of the wall date: 0 = Sunday; weeks start on Monday
+  const weekday = (new Date(wallTimeAsUtc(today)).getUTCDay() + 6) % 7;
+  const thisWeek = addDays(today, -weekday);
+  const thisMonth = { ...today, day: 1 };
+  const thisYear = { ...thisMonth, month: 1 };
+
+  switch (name) {
+    case "today":
+      return { from: today, to: addDays(today, 1) };
+    case "yesterday":
+      return { from: addDays(today, -1), to: today };
+    case "this-week":
+      return { from: thisWeek, to: addDays(thisWeek, DAYS_PER_WEEK) };
+    case "last-week":
+      return { from: addDays(thisWeek, -DAYS_PER_WEEK), to: thisWeek };
+    case "this-month":
+      return { from: thisMonth, to: addMonths(thisMonth, 1) };
+    case "last-month":
+      return { from: addMonths(thisMonth, -1), to: thisMonth };
+    case "this-year":
+      return { from: thisYear, to: addMonths(thisYear, 12) };
+    case "last-year":
+      return { from: addMonths(thisYear, -12), to: thisYear };
+  }
+}
+
+/**
+ * Parse a --from/--to value. Date-only values ("2024-05-06") are midnight in
+ * the timezone; with `endOfDay` they mean the end of that day, so
+ * --to 2024-05-12 includes the whole 12th. Timestamps without an offset are
+ * wall-clock times in the timezone.
+ */
+export function parseDateBoundary(input: string, timeZone: string, endOfDay = false): Date {
+  const trimmed = input.trim();
+  const match = trimmed.match(
+    /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?(Z|[+-]\d{2}:?\d{2})?$/i
+  );
+  if (!match) {
+    throw new Error(`Invalid date "${trimmed}" (expected ISO format like 2024-05-06 or 2024-05-06T09:00)`);
+  }
+
+  const [, year, month, day, hour, minute, second, fraction, offset] = match;
+  const wall: WallTime = {
+    year: parseInt(year, 10),
+    month: parseInt(month, 10),
+    day: parseInt(day, 10),
+    hour: hour ? parseInt(hour, 10) : 0,
+    minute: minute ? parseInt(minute, 10) : 0,
+    second: second ? parseInt(second, 10) : 0,
+    millisecond: fraction ? parseInt(fraction.padEnd(3, "0"), 10) : 0,
+  };
+
+  if (
+    wall.month < 1 || wall.month > 12 ||
+    wall.day < 1 || wall.day > daysInMonth(wall.year, wall.month) ||
+    wall.hour > 23 || wall.minute > 59 || wall.second > 59
+  ) {
+    throw new Error(`Invalid date "${trimmed}"`);
+  }
+
+  if (offset) {
+    if (!hour) {
+      throw new Error(`Invalid date "${trimmed}" (a UTC offset needs a time)`);
+    }
+    const date = new Date(trimmed.replace(" ", "T"));
+    if (Number.isNaN(date.getTime())) {
+      throw new Error(`Invalid date "${trimmed}"`);
+    }
+    return date;
+  }
+
+  if (!hour && endOfDay) {
+    return fromWallTime(addDays(wall, 1), timeZone);
+  }
+  return fromWallTime(wall, timeZone);
+}
+
+/**
+ * Resolve range/from/to into concrete boundaries.
+ *  - named range: that calendar period (can't be combined with from/to)
+ *  - from and to: exactly that window
+ *  - range with from: the range counted forward from `from`
+ *  - range (optionally with to): the range counted back from `to` (default: now)
+ */
+export function resolveDateWindow(spec: DateWindowSpec, now: Date = new Date()): DateWindow {
+  const timeZone = spec.timeZone ?? systemTimeZone();
+  validateTimeZone(timeZone);
+
+  const range = spec.range?.trim() || undefined;
+
+  if (range && isNamedRange(range)) {
+    if (spec.from || spec.to) {
+      throw new Error(`Named range "${range}" can't be combined with --from/--to`);
+    }
+    const named = namedWindow(range.toLowerCase() as NamedRange, now, timeZone);
+    return {
+      from: fromWallTime(named.from, timeZone),
+      to: fromWallTime(named.to, timeZone),
+      timeZone,
+      label: range.toLowerCase(),
+    };
+  }
+
+  const parsed = range ? parseDateRange(range) : undefined;
+  const from = spec.from ? parseDateBoundary(spec.from, timeZone) : undefined;
+  let to = spec.to ? parseDateBoundary(spec.to, timeZone, true) : undefined;
+
+  if (from && parsed && to) {
+    throw new Error("Use at most two of --range, --from and --to");
+  }
+
+  let window: Pick<DateWindow, "from" | "to">;
+  let label: string;
+  if (from && parsed) {
+    to = shiftByRange(parsed, from, timeZone, 1);
+    window = { from, to };
+    label = `${parsed.original} from ${spec.from!.trim()}`;
+  } else if (from) {
+    window = { from, to: to ?? now };
+    label = spec.to ? `${spec.from!.trim()} to ${spec.to.trim()}` : `since ${spec.from!.trim()}`;
+  } else {
+    const end = to ?? now;
+    const relative = parsed ?? parseDateRange("7d");
+    window = { from: shiftByRange(relative, end, timeZone, -1), to: end };
+    label = spec.to ? `${relative.original} until ${spec.to.trim()}` : `last ${relative.original}`;
+  }
+
+  if (window.from.getTime() >= window.to.getTime()) {
+    throw new Error(`Empty date window: ${formatDateTime(window.from, timeZone)} is not before ${formatDateTime(window.to, timeZone)}`);
+  }
+
+  return { ...window, timeZone, label };
+}
+
+/**
+ * A window covering the last `days` days up to `now` (watch mode re-derives it
+ * on every poll).
+ */
+export function trailingWindow(days: number, now: Date = new Date()): DateWindow {
+  return {
+    from: new Date(now.getTime() - days * MS_PER_DAY),
+    to: now,
+    timeZone: "UTC",
+    label: `last ${formatDaysAsRange(days)}`,
+  };
+}
+
+/**
+ * Window length in (possibly fractional) days.
+ */
+export function windowDays(window: DateWindow): number {
+  return (window.to.getTime() - window.from.getTime()) / MS_PER_DAY;
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+/**
+ * "2024-05-06 09:00" in the given timezone.
+ */
+export function formatDateTime(date: Date, timeZone: string): string {
+  const wall = wallTime(date, timeZone);
+  return `${wall.year}-${pad(wall.month)}-${pad(wall.day)} ${pad(wall.hour)}:${pad(wall.minute)}`;
+}
+
+/**
+ * "2024-05-06 00:00 to 2024-05-13 00:00 Europe/Berlin (last-week)"
+ */
+export function formatDateWindow(window: DateWindow): string {
+  return (
+    `${formatDateTime(window.from, window.timeZone)} to ${formatDateTime(window.to, window.timeZone)} ` +
+    `${window.timeZone} (${window.label})`
+  );
+}
+
 /**
  * Format days back into a human-readable string.
  */
 export function formatDaysAsRange(days: number): string {
+  if (days < 1) {
+    const hours = Math.round(days * 24);
+    return `${hours} hour${hours === 1 ? "" : "s"}`;
+  }
+  days = Math.round(days);
   if (days < DAYS_PER_WEEK) {
     return `${days} day${days === 1 ? "" : "s"}`;
   }
@@ -0,0 +1,100 @@
+/**
+ * Dependency-based filters: "new packages that depend on X".
+ *
+ * A query is a package name with an optional semver range ("eslint",
+ * "eslint@>=9", "@babel/core@^7"). A package matches if its dependencies,
+ * peerDependencies or devDependencies declare that name with a spec whose
+ * range overlaps the query range.
+ */
+
+import semver from "semver";
+import { joinList, splitList } from "./csv-list.js";
+import type { PackageInfo } from "./get-recent-npm.js";
+
+export interface DependencyQuery {
+  name: string;
+  range?: string;
+}
+
+/**
+ * Parse "name" or "name@range" (scoped names keep their leading "@").
+ */
+export function parseDependencyQuery(query: string): DependencyQuery {
+  const trimmed = query.trim();
+  const at = trimmed.indexOf("@", 1);
+  const name = (at === -1 ? trimmed : trimmed.slice(0, at)).toLowerCase();
+  const range = at === -1 ? undefined : trimmed.slice(at + 1).trim() || undefined;
+
+  if (!name || name === "@") {
+    throw new Error(`Invalid dependency "${query}" (expected e.g. eslint or eslint@>=9)`);
+  }
+  if (range !== undefined && semver.validRange(range) === null) {
+    throw new Error(`Invalid semver range "${range}" in "${query}"`);
+  }
+  return { name, range };
+}
+
+/**
+ * Format a query back into "name@range" form.
+ */
+export function formatDependencyQuery(query: DependencyQuery): string {
+  return query.range ? `${query.name}@${query.range}` : query.name;
+}
+
+/**
+ * Whether a declared dependency spec can satisfy the query range.
+ * Specs that aren't semver ranges (tags, git URLs, "workspace:", aliases)
+ * can't be compared and count as a match.
+ */
+function specMatches(spec: string, range: string | undefined): boolean {
+  if (range === undefined || semver.validRange(spec) === null) {
+    return true;
+  }
+  return semver.intersects(spec, range);
+}
+
+/**
+ * Whether the package depends on the query (any dependency type).
+ */
+export function dependsOn(info: PackageInfo, query: DependencyQuery): boolean {
+  for (const deps of [info.dependencies, info.peerDependencies, info.devDependencies]) {
+    if (!deps) continue;
+    for (const [name, spec] of Object.entries(deps)) {
+      if (name.toLowerCase() === query.name && specMatches(spec, query.range)) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Number of runtime dependencies (what an install pulls in).
+ */
+export function dependencyCount(info: PackageInfo): number {
+  return Object.keys(info.dependencies ?? {}).length;
+}
+
+/**
+ * Format a dependency map as "react@^18; react-dom@^18" for CSV.
+ */
+export function formatDependencies(deps: Record<string, string> | undefined): string {
+  if (!deps) {
+    return "";
+  }
+  return joinList(Object.entries(deps).map(([name, spec]) => `${name}@${spec}`));
+}
+
+/**
+ * Parse the output of formatDependencies back into a map.
+ */
+export function parseDependencies(value: string): Record<string, string> | undefined {
+  const result: Record<string, string> = {};
+  for (const entry of splitList(value)) {
+    const at = entry.indexOf("@", 1);
+    if (at > 0) {
+      result[entry.slice(0, at)] = entry.slice(at + 1);
+    }
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
@@ -2,15 +2,30 @@
  * Filter utilities for searching package descriptions.
  */
 
+/**
+ * How a search term is compared against text:
+ *  - partial: substring match ("react" matches "reactivity")
+ *  - word: whole words only
+ *  - regex: term is a regular expression, optionally written as /pattern/flags
+ *  - glob: term is a wildcard pattern matched against the whole value ("eslint-plugin-*")
+ */
+export type MatchMode = "partial" | "word" | "regex" | "glob";
+
+export const MATCH_MODES: MatchMode[] = ["partial", "word", "regex", "glob"];
+
 export interface SearchOptions {
   /** Search terms to look for (AND logic) */
   terms: string[];
-  /** Whether to match partial words (default: true) */
+  /** Whether to match partial words (default: true); ignored when `mode` is set */
   partialMatch?: boolean;
+  /** Matching mode (default: partial, or word if partialMatch is false) */
+  mode?: MatchMode;
   /** Case insensitive matching (default: true) */
   caseInsensitive?: boolean;
 }
 
+export type TermMatchOptions = Omit<SearchOptions, "terms">;
+
 /**
  * Parse search string into individual terms.
  * Splits on whitespace and filters out empty strings.
@@ -30,7 +45,7 @@ export function matchesSearch(
   description: string,
   options: SearchOptions
 ): boolean {
-  const { terms, partialMatch = true, caseInsensitive = true } = options;
+  const { terms, ...matchOptions } = options;
 
   // If no terms, everything matches
   if (terms.length === 0) {
@@ -42,25 +57,100 @@ export function matchesSearch(
     return false;
   }
 
-  const searchableDescription = caseInsensitive
-    ? description.toLowerCase()
-    : description;
-
   // All terms must match (AND logic)
-  return terms.every((term) => {
-    const searchTerm = caseInsensitive ? term.toLowerCase() : term;
+  return terms.every((term) => matchesTerm(description, term, matchOptions));
+}
 
-    if (partialMatch) {
-      return searchableDescription.includes(searchTerm);
-    } else {
-      // Match whole words only
-      const wordBoundaryRegex = new RegExp(
-        `\\b${escapeRegex(searchTerm)}\\b`,
-        caseInsensitive ? "i" : ""
-      );
-      return wordBoundaryRegex.test(description);
+/**
+ * Check if a single term (word or phrase) appears in the text.
+ */
+export function matchesTerm(
+  text: string,
+  term: string,
+  options: TermMatchOptions = {}
+): boolean {
+  return createTermMatcher(term, options)(text);
+}
+
+/**
+ * Compile a term into a reusable matcher.
+ * Throws if the term is not a valid pattern for the selected mode, so callers
+ * can validate a whole search before scanning.
+ */
+export function createTermMatcher(
+  term: string,
+  options: TermMatchOptions = {}
+): (text: string) => boolean {
+  const { partialMatch = true, caseInsensitive = true } = options;
+  const mode = options.mode ?? (partialMatch ? "partial" : "word");
+
+  let regex: RegExp;
+
+  switch (mode) {
+    case "partial": {
+      const needle = caseInsensitive ? term.toLowerCase() : term;
+      return (text) =>
+        !!text && (caseInsensitive ? text.toLowerCase() : text).includes(needle);
     }
-  });
+
+    case "word":
+      // Match whole words only
+      regex = new RegExp(`\\b${escapeRegex(term)}\\b`, caseInsensitive ? "i" : "");
+      break;
+
+    case "regex":
+      regex = compileRegex(term, caseInsensitive);
+      break;
+
+    case "glob":
+      regex = globToRegex(term, caseInsensitive);
+      break;
+  }
+
+  return (text) => !!text && regex.test(text);
+}
+
+/**
+ * Parse "pattern" or "/pattern/flags" into a RegExp.
+ */
+function compileRegex(term: string, caseInsensitive: boolean): RegExp {
+  const literal = /^\/(.+)\/([a-z]*)$/s.exec(term);
+  const source = literal ? literal[1] : term;
+  let flags = literal ? literal[2] : "";
+
+  // Stateful flags would make repeated test() calls skip matches
+  flags = flags.replace(/[gy]/g, "");
+  if (caseInsensitive && !flags.includes("i")) {
+    flags += "i";
+  }
+
+  try {
+    return new RegExp(source, flags);
+  } catch (err) {
+    throw new Error(`Invalid regular expression "${term}": ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Convert a glob ("*" = any run of characters, "?" = one character) into an
+ * anchored RegExp.
+ */
+function globToRegex(pattern: string, caseInsensitive: boolean): RegExp {
+  if (!pattern) {
+    throw new Error("Glob pattern cannot be empty");
+  }
+
+  const source = pattern
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return escapeRegex(char);
+    })
+    .join("")
+    .replace(/(\.\*)+/g, ".*");
+
+  return new RegExp(`^${source}$`, caseInsensitive ? "is" : "s");
 }
 
 /**
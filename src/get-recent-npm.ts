@@ -8,14 +8,53 @@
  * Requires: Node 18+ (for global fetch).
  */
 
-import { matchesSearch, parseSearchTerms } from "./description-filter.js";
-import { countJsLinesInPackage } from "./js-lines-counter.js";
+import { formatDateWindow, trailingWindow, windowDays, type DateWindow } from "./date-parser.js";
+import { fetchWithRetry } from "./http-client.js";
+import { scoreJunk } from "./junk-score.js";
+import { analyzePackage, type PackageAnalysis } from "./js-lines-counter.js";
+import { declaresTypes, detectModuleFormat, type ModuleFormat } from "./module-format.js";
+import {
+  dependencyCount,
+  dependsOn,
+  formatDependencyQuery,
+  type DependencyQuery,
+} from "./dependency-filter.js";
+import { capabilityNames, type CapabilityReport } from "./capability-scan.js";
+import { metricValue, type JsLinesMetric, type SourceMetrics } from "./source-metrics.js";
+import {
+  createRegistryCache,
+  type RegistryCache,
+  type RegistryCacheOptions,
+} from "./registry-cache.js";
+import {
+  DEFAULT_REGISTRY_CONFIG,
+  packageWebUrl,
+  registryHeaders,
+  type RegistryConfig,
+} from "./registry-config.js";
+import type { MatchMode } from "./description-filter.js";
+import {
+  normalizeDependencies,
+  normalizeEngines,
+  normalizeHomepage,
+  normalizeInstallScripts,
+  normalizeKeywords,
+  normalizeLicense,
+  normalizeRepositoryUrl,
+  personName,
+  personNames,
+} from "./package-metadata.js";
+import {
+  createPublisherFilter,
+  describePublisherLists,
+  hasPublisherLists,
+  type PublisherLists,
+} from "./publisher-lists.js";
+import { createScorer, sortPackages, type SortKey } from "./relevance.js";
+import { loadReadme, packumentReadme, readmeExcerpt } from "./readme.js";
+import { compileQuery, formatQuery, parseSearchQuery, usesField } from "./search-query.js";
+import { createTyposquatDetector, type TyposquatTechnique } from "./typosquat.js";
 
-const REGISTRY_CHANGES_URL = "https://replicate.npmjs.com/registry/_changes";
-const REGISTRY_DOC_URL_BASE = "https://registry.npmjs.org";
-const NPM_PACKAGE_URL_BASE = "https://www.npmjs.com/package";
-
-const MS_PER_DAY = 24 * 60 * 60 * 1000;
 
 export interface PackageInfo {
   name: string;
@@ -24,44 +63,231 @@ export interface PackageInfo {
   publishedAt: Date;
   npmUrl: string;
   numberOfVersions: number;
+  /** Value of the selected JS lines metric (default: SLOC) */
   jsLines?: number;
+  /** Per-language line/SLOC/file counts, see source-metrics.ts */
+  sourceMetrics?: SourceMetrics;
   hasBin?: boolean;
+  moduleFormat?: ModuleFormat;
+  /** Declares types in package.json or bundles .d.ts files (once the tarball is scanned) */
+  hasTypes?: boolean;
+  keywords?: string[];
+  author?: string;
+  /** npm username that published the latest version */
+  publisher?: string;
+  maintainers?: string[];
+  license?: string;
+  repositoryUrl?: string;
+  homepage?: string;
+  engines?: Record<string, string>;
+  /** Unpacked size of the latest version in bytes */
+  unpackedSize?: number;
+  /** Number of files in the latest version's tarball */
+  fileCount?: number;
+  /** Dependency maps of the latest version ({ name: spec }) */
+  dependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  /** preinstall/install/postinstall/prepare scripts of the latest version */
+  installScripts?: Record<string, string>;
+  /** Sensitive capabilities found by the static scan, see capability-scan.ts */
+  capabilities?: CapabilityReport;
+  /** Popular package this name appears to imitate */
+  typosquatOf?: string;
+  typosquatTechnique?: TyposquatTechnique;
+  /** Junk/spam score, see junk-score.ts */
+  junkScore?: number;
+  junkReasons?: string[];
+  /** Plain-text start of the README, see readme.ts */
+  readmeExcerpt?: string;
+  /** Relevance score, see relevance.ts */
+  score?: number;
   aiSummary?: string;
+  /** Columns of a loaded CSV that this version doesn't know, written back out unchanged */
+  extraColumns?: Record<string, string>;
 }
 
-export interface GetRecentNpmOptions {
-  changesLimit?: number;
-  maxResults?: number;
+/**
+ * Filters applied to each candidate package (shared by batch scans and watch mode).
+ */
+export interface PackageFilterOptions {
+  /** Trailing window length in days, when no `window` is given (default: 7) */
   daysBack?: number;
-  concurrency?: number;
+  /** Exact publish window (batch scans only; watch mode uses daysBack) */
+  window?: DateWindow;
   searchTerms?: string;
   partialMatch?: boolean;
+  /** Overrides partialMatch when set */
+  searchMode?: MatchMode;
   minJsLines?: number;
-  maxPages?: number;
+  /** What minJsLines (and info.jsLines) measures (default: sloc) */
+  jsLinesMetric?: JsLinesMetric;
+  /** Download every matching tarball to scan for sensitive capabilities */
+  scanCapabilities?: boolean;
+  /** Packages that unpack to more than this many bytes aren't analyzed (default: 100 MB) */
+  maxPackageBytes?: number;
+  minUnpackedSize?: number;
+  maxUnpackedSize?: number;
+  minFileCount?: number;
   requireBin?: boolean;
+  /** Only packages that ship TypeScript types */
+  requireTypes?: boolean;
+  /** Only packages that ship this module format ("dual" packages match esm and cjs too) */
+  moduleFormat?: ModuleFormat;
+  /** true: only packages with lifecycle install scripts; false: only packages without */
+  installScripts?: boolean;
+  /** Keep packages with any of these licenses (case-insensitive SPDX ids) */
+  licenses?: string[];
+  /** Keep packages whose author or a maintainer matches any of these names */
+  authors?: string[];
+  /** Keep packages that have any of these keywords */
+  keywords?: string[];
+  /** Keep packages that depend (dependencies, peer or dev) on any of these */
+  dependsOn?: DependencyQuery[];
+  /** Drop packages with more runtime dependencies than this */
+  maxDeps?: number;
+  /** Scope and maintainer allow/deny lists */
+  publisherLists?: PublisherLists;
+  /** Check names against popular packages: annotate matches, or keep only matches */
+  typosquats?: TyposquatOptions;
+  /** Drop packages whose junk score is above this */
+  maxJunkScore?: number;
+  registry?: RegistryConfig;
+  /** On-disk cache settings; an in-memory packument cache is always used */
+  cacheOptions?: RegistryCacheOptions;
+}
+
+/**
+ * Filters on the latest version's dist.unpackedSize / dist.fileCount, checked
+ * from the packument before any tarball is downloaded.
+ */
+export interface SizeLimits {
+  /** Bytes */
+  minUnpackedSize?: number;
+  /** Bytes */
+  maxUnpackedSize?: number;
+  minFileCount?: number;
+}
+
+export interface TyposquatOptions {
+  mode: "flag" | "only";
+  /** Names to compare against (default: the bundled popular list) */
+  popularNames?: string[];
+}
+
+export interface GetRecentNpmOptions extends PackageFilterOptions {
+  changesLimit?: number;
+  maxResults?: number;
+  /**
+   * How many matches to collect before sorting and truncating to maxResults
+   * (default: DEFAULT_CANDIDATE_FACTOR times maxResults)
+   */
+  maxCandidates?: number;
+  /** Result order (default: score) */
+  sort?: SortKey;
+  concurrency?: number;
+  maxPages?: number;
+  /** Only process changes newer than this seq (e.g. a saved checkpoint) */
+  sinceSeq?: string;
+  /** Start paging backwards from this seq instead of the head of the feed (exclusive) */
+  untilSeq?: string;
+}
+
+/**
+ * Range of the changes feed covered by a run.
+ * `to` is the newest seq seen; `checkpoint` is what may be saved as the next checkpoint.
+ */
+export interface SeqRange {
+  from?: string;
+  to?: string;
+  /** True if paging stopped because it reached `sinceSeq` */
+  reachedSinceSeq: boolean;
+  /**
+   * Set to `to` only when every change newer than `sinceSeq` was processed
+   * without errors. The feed is read newest-first, so an interrupted scan
+   * leaves its gap just above the old checkpoint, which must then stay put.
+   */
+  checkpoint?: string;
+}
+
+/**
+ * A package that couldn't be evaluated (e.g. the registry kept failing).
+ */
+export interface SkippedPackage {
+  name: string;
+  reason: string;
+}
+
+export interface RecentNpmResult {
+  packages: PackageInfo[];
+  seqRange: SeqRange;
+  /** Packages dropped because of errors rather than filters */
+  skipped: SkippedPackage[];
 }
 
+/**
+ * Without an explicit candidate pool, collect this many times maxResults so
+ * sorting picks the best results rather than just the first ones found.
+ */
+const DEFAULT_CANDIDATE_FACTOR = 5;
+
+type Seq = string | number;
+
 interface ChangesResponse {
-  results: Array<{ id: string }>;
-  last_seq: string;
+  results: Array<{ id: string; seq?: Seq }>;
+  last_seq: Seq;
+}
+
+export interface ChangesPage {
+  names: string[];
+  /** Rows in the response, before duplicates and design docs are dropped */
+  rowCount: number;
+  lastSeq: string;
+  highestSeq?: string;
+  lowestSeq?: string;
+  reachedSinceSeq: boolean;
+}
+
+/**
+ * Compare two changes-feed sequences.
+ * npm's replicate feed uses integers; CouchDB uses "<number>-<opaque>" strings,
+ * whose numeric prefix is still ordered. Returns NaN if they can't be compared.
+ */
+function compareSeq(a: Seq, b: Seq): number {
+  if (String(a) === String(b)) {
+    return 0;
+  }
+  const numA = parseInt(String(a), 10);
+  const numB = parseInt(String(b), 10);
+  if (Number.isNaN(numA) || Number.isNaN(numB)) {
+    return NaN;
+  }
+  return numA - numB;
 }
 
 /**
  * Fetch a slice of the npm changes feed and return unique package IDs plus last_seq.
+ * Rows at or below `sinceSeq` are dropped and flag that the checkpoint was reached.
+ * Pages newest-first by default; watch mode reads ascending to follow new changes.
  */
-async function getRecentPackageNames(
+export async function getRecentPackageNames(
+  registry: RegistryConfig,
   limit: number,
-  since?: string
-): Promise<{ names: string[]; lastSeq: string }> {
-  const url = new URL(REGISTRY_CHANGES_URL);
-  url.searchParams.set("descending", "true");
+  since?: string,
+  sinceSeq?: string,
+  descending = true
+): Promise<ChangesPage> {
+  const url = new URL(registry.changesUrl);
+  if (descending) {
+    url.searchParams.set("descending", "true");
+  }
   url.searchParams.set("limit", String(limit));
 
   if (since) {
     url.searchParams.set("since", since);
   }
 
-  const res = await fetch(url);
+  const res = await fetchWithRetry(url, { headers: registryHeaders(registry) });
   if (!res.ok) {
     throw new Error(`_changes request failed: ${res.status} ${res.statusText}`);
   }
@@ -69,8 +295,32 @@ async function getRecentPackageNames(
   const data: ChangesResponse = await res.json();
   const seen = new Set<string>();
   const names: string[] = [];
+  let highestSeq: string | undefined;
+  let lowestSeq: string | undefined;
+  let reachedSinceSeq = false;
 
   for (const row of data.results ?? []) {
+    if (
+      descending &&
+      sinceSeq !== undefined &&
+      row.seq !== undefined &&
+      compareSeq(row.seq, sinceSeq) <= 0
+    ) {
+      // Feed is descending, so everything after this was seen by an earlier run
+      reachedSinceSeq = true;
+      break;
+    }
+
+    if (row.seq !== undefined) {
+      const seq = String(row.seq);
+      if (highestSeq === undefined || compareSeq(seq, highestSeq) > 0) {
+        highestSeq = seq;
+      }
+      if (lowestSeq === undefined || compareSeq(seq, lowestSeq) < 0) {
+        lowestSeq = seq;
+      }
+    }
+
     const id = row.id;
     if (!id) continue;
     if (id.startsWith("_design/")) continue; // skip internal docs
@@ -83,28 +333,32 @@ async function getRecentPackageNames(
 
   return {
     names,
-    lastSeq: data.last_seq,
+    rowCount: data.results?.length ?? 0,
+    lastSeq: String(data.last_seq),
+    highestSeq,
+    lowestSeq,
+    reachedSinceSeq,
   };
 }
 
 /**
- * Return info if package's FIRST version was published within `daysBack` days.
+ * Return info if package's FIRST version was published within `window`
+ * and its latest version is within `sizeLimits`.
  * The package may have multiple versions - we track the count.
  * Otherwise returns null.
  */
-async function getIfFirstVersionRecent(
+export async function getIfFirstVersionRecent(
+  registry: RegistryConfig,
+  cache: RegistryCache,
   pkgName: string,
-  daysBack: number,
-  now: number
+  window: DateWindow,
+  sizeLimits: SizeLimits = {}
 ): Promise<PackageInfo | null> {
-  const url = `${REGISTRY_DOC_URL_BASE}/${encodeURIComponent(pkgName)}`;
-  const res = await fetch(url);
-  if (!res.ok) {
-    console.error(`Failed to fetch ${pkgName}: ${res.status} ${res.statusText}`);
+  const data = await cache.getPackument(registry, pkgName);
+  if (!data) {
     return null;
   }
 
-  const data = await res.json();
   const versionsObj = data.versions || {};
   const versionNames = Object.keys(versionsObj);
   const numberOfVersions = versionNames.length;
@@ -126,11 +380,7 @@ async function getIfFirstVersionRecent(
     return null;
   }
 
-  const ageMs = now - createdDate.getTime();
-  const maxAgeMs = daysBack * MS_PER_DAY;
-
-  if (ageMs < 0 || ageMs > maxAgeMs) {
-    // From the future (clock skew) or older than our window
+  if (createdDate < window.from || createdDate >= window.to) {
     return null;
   }
 
@@ -139,20 +389,26 @@ async function getIfFirstVersionRecent(
     data["dist-tags"]?.latest || versionNames[versionNames.length - 1];
 
   // Prefer top-level description, then version-specific description.
+  const descriptions = [data.description, versionsObj[latestVersion]?.description];
   let description =
-    data.description ||
-    (versionsObj[latestVersion] && versionsObj[latestVersion].description) ||
-    "";
+    descriptions.find((value): value is string => typeof value === "string" && value.length > 0) ?? "";
 
   // Normalize newlines/tabs so they don't blow up readability
   description = description.replace(/[\r\n\t]+/g, " ").trim();
 
-  const npmUrl = `${NPM_PACKAGE_URL_BASE}/${encodeURIComponent(pkgName)}`;
+  const npmUrl = packageWebUrl(registry, pkgName);
 
   // Check if package has a bin entry (CLI command)
   const versionData = versionsObj[latestVersion];
   const hasBin = !!(versionData?.bin && Object.keys(versionData.bin).length > 0);
 
+  const unpackedSize = versionData?.dist?.unpackedSize;
+  const fileCount = versionData?.dist?.fileCount;
+
+  if (!withinSizeLimits(unpackedSize, fileCount, sizeLimits)) {
+    return null;
+  }
+
   return {
     name: pkgName,
     version: latestVersion,
@@ -161,71 +417,450 @@ async function getIfFirstVersionRecent(
     npmUrl,
     numberOfVersions,
     hasBin,
+    moduleFormat: detectModuleFormat(versionData),
+    hasTypes: declaresTypes(versionData),
+    keywords: normalizeKeywords(versionData?.keywords ?? data.keywords),
+    author: personName(versionData?.author ?? data.author),
+    publisher: personName(versionData?._npmUser),
+    maintainers: personNames(data.maintainers ?? versionData?.maintainers),
+    license: normalizeLicense(
+      versionData?.license ?? data.license,
+      versionData?.licenses ?? data.licenses
+    ),
+    repositoryUrl: normalizeRepositoryUrl(versionData?.repository ?? data.repository),
+    homepage: normalizeHomepage(versionData?.homepage ?? data.homepage),
+    engines: normalizeEngines(versionData?.engines),
+    unpackedSize: typeof unpackedSize === "number" ? unpackedSize : undefined,
+    fileCount: typeof fileCount === "number" ? fileCount : undefined,
+    dependencies: normalizeDependencies(versionData?.dependencies),
+    peerDependencies: normalizeDependencies(versionData?.peerDependencies),
+    devDependencies: normalizeDependencies(versionData?.devDependencies),
+    readmeExcerpt: readmeExcerpt(packumentReadme(data)),
+    installScripts: normalizeInstallScripts(versionData?.scripts, versionData?.hasInstallScript),
   };
 }
 
 /**
- * Fetch recent npm packages and return the results.
- * Automatically pages through the changes feed until enough results are found.
+ * Check dist sizes against the limits. Older versions published without these
+ * fields can't be judged, so they pass.
  */
-export async function getRecentNpmPackages(
-  options: GetRecentNpmOptions = {}
-): Promise<PackageInfo[]> {
+function withinSizeLimits(unpackedSize: unknown, fileCount: unknown, limits: SizeLimits): boolean {
+  if (typeof unpackedSize === "number") {
+    if (limits.minUnpackedSize !== undefined && unpackedSize < limits.minUnpackedSize) {
+      return false;
+    }
+    if (limits.maxUnpackedSize !== undefined && unpackedSize > limits.maxUnpackedSize) {
+      return false;
+    }
+  }
+  if (typeof fileCount === "number" && limits.minFileCount !== undefined) {
+    return fileCount >= limits.minFileCount;
+  }
+  return true;
+}
+
+/**
+ * Log the active package filters.
+ */
+export function logPackageFilters(options: PackageFilterOptions): void {
   const {
-    changesLimit = 200,
-    maxResults = 30,
     daysBack = 7,
-    concurrency = 10,
     searchTerms = "",
-    partialMatch = true,
     minJsLines,
-    maxPages = 1000,
     requireBin = false,
+    registry = DEFAULT_REGISTRY_CONFIG,
   } = options;
 
-  const now = Date.now();
+  const query = parseSearchQuery(searchTerms);
 
-  // Parse search terms if provided
-  const terms = searchTerms ? parseSearchTerms(searchTerms) : [];
-  const hasSearchFilter = terms.length > 0;
-  const hasJsLinesFilter = minJsLines !== undefined && minJsLines > 0;
+  if (options.window) {
+    console.log(
+      `Searching for packages whose first version was published ${formatDateWindow(options.window)}...`
+    );
+  } else {
+    console.log(
+      `Searching for packages whose first version was published within the last ${daysBack} day(s)...`
+    );
+  }
 
-  console.log(
-    `Searching for packages whose first version was published within the last ${daysBack} day(s)...`
-  );
-  console.log(`Will fetch ${changesLimit} packages per page from changes feed.`);
+  if (registry.registryUrl !== DEFAULT_REGISTRY_CONFIG.registryUrl) {
+    console.log(`Using registry: ${registry.registryUrl}`);
+  }
 
-  if (hasSearchFilter) {
-    console.log(`Filtering by name or description containing: ${terms.join(" AND ")}`);
+  if (query) {
+    const mode = options.searchMode ?? (options.partialMatch === false ? "word" : "partial");
+    console.log(`Filtering by search query (${mode} match): ${formatQuery(query)}`);
   }
 
-  if (hasJsLinesFilter) {
-    console.log(`Filtering by minimum ${minJsLines} JavaScript lines`);
+  if (minJsLines !== undefined && minJsLines > 0) {
+    console.log(
+      `Filtering by minimum ${minJsLines} JavaScript lines (${options.jsLinesMetric ?? "sloc"})`
+    );
   }
 
   if (requireBin) {
     console.log("Filtering for packages with CLI bin entries only");
   }
 
+  if (options.minUnpackedSize !== undefined) {
+    console.log(`Filtering by minimum unpacked size of ${options.minUnpackedSize} bytes`);
+  }
+
+  if (options.maxUnpackedSize !== undefined) {
+    console.log(`Filtering by maximum unpacked size of ${options.maxUnpackedSize} bytes`);
+  }
+
+  if (options.minFileCount !== undefined) {
+    console.log(`Filtering by minimum ${options.minFileCount} files`);
+  }
+
+  if (options.scanCapabilities) {
+    console.log("Scanning tarballs for sensitive capabilities");
+  }
+
+  if (options.requireTypes) {
+    console.log("Filtering for packages that ship TypeScript types");
+  }
+
+  if (options.moduleFormat) {
+    console.log(`Filtering for packages that ship ${options.moduleFormat} modules`);
+  }
+
+  if (options.installScripts !== undefined) {
+    console.log(
+      options.installScripts
+        ? "Filtering for packages with install scripts only"
+        : "Filtering out packages with install scripts"
+    );
+  }
+
+  if (options.licenses?.length) {
+    console.log(`Filtering by license: ${options.licenses.join(" OR ")}`);
+  }
+
+  if (options.authors?.length) {
+    console.log(`Filtering by author or maintainer: ${options.authors.join(" OR ")}`);
+  }
+
+  if (options.keywords?.length) {
+    console.log(`Filtering by keyword: ${options.keywords.join(" OR ")}`);
+  }
+
+  if (options.dependsOn?.length) {
+    console.log(
+      `Filtering by dependency on: ${options.dependsOn.map(formatDependencyQuery).join(" OR ")}`
+    );
+  }
+
+  if (options.maxDeps !== undefined) {
+    console.log(`Filtering by at most ${options.maxDeps} dependencies`);
+  }
+
+  if (hasPublisherLists(options.publisherLists)) {
+    for (const line of describePublisherLists(options.publisherLists)) {
+      console.log(line);
+    }
+  }
+
+  if (options.maxJunkScore !== undefined) {
+    console.log(`Filtering out packages with a junk score above ${options.maxJunkScore}`);
+  }
+
+  if (options.typosquats) {
+    console.log(
+      options.typosquats.mode === "only"
+        ? "Only including likely typosquats of popular packages"
+        : "Flagging likely typosquats of popular packages"
+    );
+  }
+}
+
+/**
+ * Build a name-only pre-filter so packages from denied scopes (or, with
+ * --only-typosquats, names that don't imitate anything) are skipped before
+ * their packument is fetched.
+ */
+export function createNameFilter(options: PackageFilterOptions): (pkgName: string) => boolean {
+  const publisherAllowed = hasPublisherLists(options.publisherLists)
+    ? createPublisherFilter(options.publisherLists).nameAllowed
+    : () => true;
+
+  if (options.typosquats?.mode !== "only") {
+    return publisherAllowed;
+  }
+
+  const typosquatDetector = createTyposquatDetector(options.typosquats.popularNames);
+  return (pkgName) => publisherAllowed(pkgName) && typosquatDetector.check(pkgName) !== undefined;
+}
+
+/**
+ * Build the filter chain applied to packages that passed the recency check.
+ * Resolves to true if the package should be kept; may fill in `info.jsLines`,
+ * `info.sourceMetrics` and `info.capabilities`.
+ */
+export function createPackageMatcher(
+  options: PackageFilterOptions,
+  cache: RegistryCache
+): (info: PackageInfo) => Promise<boolean> {
+  const {
+    searchTerms = "",
+    partialMatch = true,
+    searchMode,
+    minJsLines,
+    jsLinesMetric = "sloc",
+    scanCapabilities = false,
+    requireBin = false,
+    requireTypes = false,
+    registry = DEFAULT_REGISTRY_CONFIG,
+  } = options;
+
+  // Compile the search query up front so syntax errors surface before scanning
+  const query = parseSearchQuery(searchTerms);
+  const matchesSearchQuery = compileQuery(query, {
+    partialMatch,
+    mode: searchMode,
+  });
+  const searchesReadme = usesField(query, "readme");
+  const hasJsLinesFilter = minJsLines !== undefined && minJsLines > 0;
+  const tarballLimits = { maxUnpackedBytes: options.maxPackageBytes };
+
+  async function readmeFor(info: PackageInfo): Promise<string | undefined> {
+    try {
+      const readme = await loadReadme(registry, cache, info.name, info.version, tarballLimits);
+      info.readmeExcerpt ??= readmeExcerpt(readme);
+      return readme;
+    } catch (err) {
+      // Search the other fields as if there were no README
+      console.error(`Could not read README for ${info.name}: ${(err as Error).message}`);
+      return undefined;
+    }
+  }
+
+  const publisherFilter = hasPublisherLists(options.publisherLists)
+    ? createPublisherFilter(options.publisherLists)
+    : undefined;
+  const licenses = lowerCaseSet(options.licenses);
+  const authors = lowerCaseSet(options.authors);
+  const keywords = lowerCaseSet(options.keywords);
+  const typosquatDetector = options.typosquats
+    ? createTyposquatDetector(options.typosquats.popularNames)
+    : undefined;
+  const onlyTyposquats = options.typosquats?.mode === "only";
+
+  return async (info) => {
+    // Check the name against popular packages (annotates info in both modes)
+    if (typosquatDetector) {
+      const typosquat = typosquatDetector.check(info.name);
+      if (typosquat) {
+        info.typosquatOf = typosquat.target;
+        info.typosquatTechnique = typosquat.technique;
+      } else if (onlyTyposquats) {
+        return false;
+      }
+    }
+
+    // Score junk/spam signals (always recorded, only filtered when a maximum is set)
+    const junk = scoreJunk(info);
+    info.junkScore = junk.score;
+    info.junkReasons = junk.reasons;
+    if (options.maxJunkScore !== undefined && junk.score > options.maxJunkScore) {
+      return false;
+    }
+
+    // Apply bin filter
+    if (requireBin && !info.hasBin) {
+      return false;
+    }
+
+    // Apply module format filter
+    if (options.moduleFormat && !matchesModuleFormat(info.moduleFormat, options.moduleFormat)) {
+      return false;
+    }
+
+    // Apply install script filter
+    if (options.installScripts !== undefined && options.installScripts !== !!info.installScripts) {
+      return false;
+    }
+
+    // Apply scope/maintainer allow and deny lists
+    if (publisherFilter && !publisherFilter.packageAllowed(info)) {
+      return false;
+    }
+
+    // Apply metadata filters (each list matches if any entry matches)
+    if (licenses && !(info.license && licenses.has(info.license.toLowerCase()))) {
+      return false;
+    }
+
+    if (authors) {
+      const people = [info.author, ...(info.maintainers ?? [])]
+        .filter((name): name is string => !!name)
+        .map((name) => name.toLowerCase());
+      if (!people.some((name) => authors.has(name))) {
+        return false;
+      }
+    }
+
+    if (keywords && !(info.keywords ?? []).some((k) => keywords.has(k.toLowerCase()))) {
+      return false;
+    }
+
+    if (options.dependsOn?.length && !options.dependsOn.some((query) => dependsOn(info, query))) {
+      return false;
+    }
+
+    if (options.maxDeps !== undefined && dependencyCount(info) > options.maxDeps) {
+      return false;
+    }
+
+    // Apply search query (unqualified terms check both name and description;
+    // the README is only loaded when the query has readme: terms)
+    const searchable = searchesReadme ? { ...info, readme: await readmeFor(info) } : info;
+    if (!matchesSearchQuery(searchable)) {
+      return false;
+    }
+
+    // Apply tarball-based filters (lazy evaluation - only download the tarball if needed).
+    // Types declared in package.json make the download unnecessary for requireTypes.
+    const needsTypesScan = requireTypes && !info.hasTypes;
+    if (hasJsLinesFilter || needsTypesScan) {
+      console.log(
+        hasJsLinesFilter
+          ? `Counting JS lines for ${info.name}@${info.version}...`
+          : `Looking for bundled types in ${info.name}@${info.version}...`
+      );
+      applyAnalysis(
+        info,
+        await analyzePackage(info.name, info.version, registry, cache, tarballLimits),
+        jsLinesMetric
+      );
+
+      if (hasJsLinesFilter && info.jsLines! < minJsLines) {
+        console.log(`  Skipped: ${info.name} has only ${info.jsLines} JS lines (${jsLinesMetric})`);
+        return false;
+      }
+
+      if (requireTypes && !info.hasTypes) {
+        console.log(`  Skipped: ${info.name} ships no types`);
+        return false;
+      }
+    } else if (minJsLines === 0 || scanCapabilities) {
+      // Not filtering on the tarball: still count lines / scan, but keep the package on errors
+      console.log(`Analyzing ${info.name}@${info.version}...`);
+      try {
+        applyAnalysis(
+          info,
+          await analyzePackage(info.name, info.version, registry, cache, tarballLimits),
+          jsLinesMetric
+        );
+      } catch (err) {
+        console.error((err as Error).message);
+      }
+    }
+
+    return true;
+  };
+}
+
+/**
+ * "dual" packages can be consumed as either format, so they satisfy esm and cjs.
+ */
+function matchesModuleFormat(actual: ModuleFormat | undefined, wanted: ModuleFormat): boolean {
+  return actual === wanted || (actual === "dual" && wanted !== "dual");
+}
+
+/**
+ * Copy tarball analysis results onto the package.
+ */
+function applyAnalysis(info: PackageInfo, analysis: PackageAnalysis, metric: JsLinesMetric): void {
+  info.jsLines = metricValue(analysis.sourceMetrics, metric);
+  info.sourceMetrics = analysis.sourceMetrics;
+  info.capabilities = analysis.capabilities;
+  if (analysis.sourceMetrics.dts.files > 0) {
+    info.hasTypes = true;
+  }
+}
+
+function lowerCaseSet(values: string[] | undefined): Set<string> | undefined {
+  return values && values.length > 0
+    ? new Set(values.map((value) => value.toLowerCase()))
+    : undefined;
+}
+
+/**
+ * Fetch recent npm packages and return the results.
+ * Automatically pages through the changes feed until enough results are found.
+ */
+export async function getRecentNpmPackages(
+  options: GetRecentNpmOptions = {}
+): Promise<RecentNpmResult> {
+  const {
+    changesLimit = 200,
+    maxResults = 30,
+    sort = "score",
+    daysBack = 7,
+    concurrency = 10,
+    maxPages = 1000,
+    registry = DEFAULT_REGISTRY_CONFIG,
+    sinceSeq,
+    untilSeq,
+  } = options;
+
+  const maxCandidates = Math.max(
+    options.maxCandidates ?? maxResults * DEFAULT_CANDIDATE_FACTOR,
+    maxResults
+  );
+  const window = options.window ?? trailingWindow(daysBack);
+  const cache = createRegistryCache(options.cacheOptions);
+  const matchesFilters = createPackageMatcher(options, cache);
+  const nameAllowed = createNameFilter(options);
+
+  logPackageFilters(options);
+  console.log(`Will fetch ${changesLimit} packages per page from changes feed.`);
+
+  if (sinceSeq !== undefined) {
+    console.log(`Only processing changes newer than seq ${sinceSeq}`);
+  }
+
   const results: PackageInfo[] = [];
-  let lastSeq: string | undefined;
+  const skipped: SkippedPackage[] = [];
+  const seqRange: SeqRange = { reachedSinceSeq: false };
+  let lastSeq: string | undefined = untilSeq;
   let pageNumber = 0;
+  let reachedFeedEnd = false;
+  // Set when workers stop at maxCandidates with names of a page left unchecked
+  let pageCutShort = false;
   let totalPackagesChecked = 0;
   let oldestUpdateDate: Date | null = null;
   let newestUpdateDate: Date | null = null;
 
   // Keep fetching pages until we have enough results or run out of packages
-  while (results.length < maxResults && pageNumber < maxPages) {
+  while (results.length < maxCandidates && pageNumber < maxPages) {
     pageNumber++;
     console.log(`\nFetching page ${pageNumber} (up to ${changesLimit} packages)...`);
 
-    const { names, lastSeq: newLastSeq } = await getRecentPackageNames(
+    const page = await getRecentPackageNames(
+      registry,
       changesLimit,
-      lastSeq
+      lastSeq,
+      sinceSeq
     );
+    const { names, lastSeq: newLastSeq } = page;
+
+    // The first page holds the newest changes we will see this run
+    if (seqRange.to === undefined) {
+      seqRange.to = page.highestSeq;
+    }
+    if (page.lowestSeq !== undefined) {
+      seqRange.from = page.lowestSeq;
+    }
+    if (page.reachedSinceSeq) {
+      seqRange.reachedSinceSeq = true;
+    }
 
     if (names.length === 0) {
       console.log("No more packages available in changes feed.");
+      reachedFeedEnd = true;
       break;
     }
 
@@ -240,12 +875,16 @@ export async function getRecentNpmPackages(
     let index = 0;
 
     async function worker() {
-      while (index < names.length && results.length < maxResults) {
+      while (index < names.length && results.length < maxCandidates) {
         const currentIndex = index++;
         const name = names[currentIndex];
 
+        if (!nameAllowed(name)) {
+          continue;
+        }
+
         try {
-          const info = await getIfFirstVersionRecent(name, daysBack, now);
+          const info = await getIfFirstVersionRecent(registry, cache, name, window, options);
           if (!info) {
             continue;
           }
@@ -258,59 +897,27 @@ export async function getRecentNpmPackages(
             pageOldestDate = info.publishedAt;
           }
 
-          // Apply bin filter
-          if (requireBin && !info.hasBin) {
+          if (!(await matchesFilters(info))) {
             continue;
           }
 
-          // Apply search filter (check both name and description)
-          if (hasSearchFilter) {
-            const nameMatches = matchesSearch(info.name, {
-              terms,
-              partialMatch,
-              caseInsensitive: true,
-            });
-
-            const descMatches = matchesSearch(info.description, {
-              terms,
-              partialMatch,
-              caseInsensitive: true,
-            });
-
-            // Match if found in either name OR description
-            if (!nameMatches && !descMatches) {
-              continue;
-            }
-          }
-
-          // Apply JS lines filter (lazy evaluation - only count if needed)
-          if (hasJsLinesFilter) {
-            console.log(`Counting JS lines for ${info.name}@${info.version}...`);
-            const jsLines = await countJsLinesInPackage(info.name, info.version);
-            info.jsLines = jsLines;
-
-            if (jsLines < minJsLines) {
-              console.log(`  Skipped: ${info.name} has only ${jsLines} JS lines`);
-              continue;
-            }
-          } else if (minJsLines === 0) {
-            // If user explicitly set minJsLines to 0, still count but don't filter
-            console.log(`Counting JS lines for ${info.name}@${info.version}...`);
-            info.jsLines = await countJsLinesInPackage(info.name, info.version);
-          }
-
           results.push(info);
           console.log(
-            `Found: ${info.name}@${info.version}${info.jsLines !== undefined ? ` (${info.jsLines} JS lines)` : ""} [${results.length}/${maxResults}]`
+            `Found: ${info.name}@${info.version}${info.jsLines !== undefined ? ` (${info.jsLines} JS lines)` : ""}${info.typosquatOf ? ` (possible typosquat of ${info.typosquatOf})` : ""}${capabilityNames(info.capabilities).length ? ` [${capabilityNames(info.capabilities).join(", ")}]` : ""} [${results.length}/${maxCandidates}]`
           );
         } catch (err) {
-          console.error(`Error checking ${name}:`, err);
+          const reason = (err as Error).message;
+          console.error(`Error checking ${name}: ${reason}`);
+          skipped.push({ name, reason });
         }
       }
     }
 
     const workers = Array.from({ length: concurrency }, () => worker());
     await Promise.all(workers);
+    if (index < names.length) {
+      pageCutShort = true;
+    }
 
     // Update overall date range
     if (pageNewestDate) {
@@ -326,7 +933,7 @@ export async function getRecentNpmPackages(
 
     // Log page completion with date range
     console.log(
-      `Page ${pageNumber} complete. Found ${results.length}/${maxResults} matching packages so far.`
+      `Page ${pageNumber} complete. Found ${results.length}/${maxCandidates} matching packages so far.`
     );
 
     if (pageOldestDate && pageNewestDate) {
@@ -338,7 +945,7 @@ export async function getRecentNpmPackages(
     }
 
     // If we have enough results, stop
-    if (results.length >= maxResults) {
+    if (results.length >= maxCandidates) {
       console.log("Found enough matching packages!");
       break;
     }
@@ -349,6 +956,11 @@ export async function getRecentNpmPackages(
       break;
     }
 
+    if (page.reachedSinceSeq) {
+      console.log(`Reached previous checkpoint (seq ${sinceSeq}).`);
+      break;
+    }
+
     // Update lastSeq for next iteration
     lastSeq = newLastSeq;
   }
@@ -369,7 +981,44 @@ export async function getRecentNpmPackages(
     console.log(`Overall date range examined: ${oldestStr} to ${newestStr}`);
   }
 
+  if (seqRange.from !== undefined && seqRange.to !== undefined) {
+    console.log(`Changes feed seq range covered: ${seqRange.from} to ${seqRange.to}`);
+  }
+
+  if (sinceSeq !== undefined && !seqRange.reachedSinceSeq && !reachedFeedEnd) {
+    console.log(
+      `Warning: stopped before reaching checkpoint seq ${sinceSeq}; some changes in between were not scanned.`
+    );
+  }
+
+  // Without a previous checkpoint there's no gap to leave behind, only errors to retry
+  const scannedToCheckpoint =
+    sinceSeq === undefined || ((seqRange.reachedSinceSeq || reachedFeedEnd) && !pageCutShort);
+  if (scannedToCheckpoint && skipped.length === 0) {
+    seqRange.checkpoint = seqRange.to;
+  }
+
+  if (skipped.length > 0) {
+    console.log(`Skipped ${skipped.length} package(s) due to errors.`);
+  }
+
   console.log(`Found ${results.length} package(s) matching your criteria.`);
 
-  return results;
+  // Rank everything we collected, then keep the best maxResults
+  const scorePackage = createScorer({
+    query: parseSearchQuery(options.searchTerms ?? ""),
+    mode: options.searchMode ?? (options.partialMatch === false ? "word" : "partial"),
+    daysBack: windowDays(window),
+    now: window.to.getTime(),
+  });
+  for (const pkg of results) {
+    pkg.score = scorePackage(pkg);
+  }
+  sortPackages(results, sort);
+
+  if (results.length > maxResults) {
+    console.log(`Keeping the top ${maxResults} by ${sort}.`);
+  }
+
+  return { packages: results.slice(0, maxResults), seqRange, skipped };
 }
@@ -0,0 +1,204 @@
+/**
+ * Shared fetch wrapper with timeouts, retries and a global rate limiter.
+ *  - retries network errors, 408, 429 and 5xx responses
+ *  - exponential backoff with full jitter, honouring Retry-After
+ *  - a 429 pauses every request, not just the one that was rejected
+ */
+
+import { setTimeout as delay } from "timers/promises";
+
+export interface HttpSettings {
+  /**
+   * Per-attempt timeout in ms for the response headers, then for each gap
+   * between body chunks, so long downloads that keep moving aren't cut off
+   * (default: 30s)
+   */
+  timeoutMs: number;
+  /** Retries after the first attempt (default: 4) */
+  maxRetries: number;
+  /** Base delay for exponential backoff in ms (default: 500) */
+  baseDelayMs: number;
+  /** Upper bound for any single wait in ms (default: 60s) */
+  maxDelayMs: number;
+  /** Global request budget; 0 disables the limiter (default: 0) */
+  requestsPerSecond: number;
+}
+
+const DEFAULT_SETTINGS: HttpSettings = {
+  timeoutMs: 30 * 1000,
+  maxRetries: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 60 * 1000,
+  requestsPerSecond: 0,
+};
+
+const settings: HttpSettings = { ...DEFAULT_SETTINGS };
+
+// Earliest time the next request may start (rate limit + Retry-After pauses)
+let nextRequestAt = 0;
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+/**
+ * Replace HTTP settings with the defaults plus the given overrides, so
+ * nothing carries over from a previous run in the same process.
+ */
+export function configureHttp(overrides: Partial<HttpSettings>): void {
+  Object.assign(settings, DEFAULT_SETTINGS);
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined && !Number.isNaN(value)) {
+      settings[key as keyof HttpSettings] = value;
+    }
+  }
+}
+
+async function waitForSlot(): Promise<void> {
+  const now = Date.now();
+  const startAt = Math.max(now, nextRequestAt);
+
+  if (settings.requestsPerSecond > 0) {
+    nextRequestAt = startAt + 1000 / settings.requestsPerSecond;
+  }
+
+  if (startAt > now) {
+    await delay(startAt - now);
+  }
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds.
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+function backoffDelay(attempt: number): number {
+  const cap = Math.min(settings.maxDelayMs, settings.baseDelayMs * 2 ** attempt);
+  return Math.random() * cap;
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Aborts a request when nothing has arrived for `ms`: first the headers,
+ * then each chunk of the body.
+ */
+function idleTimeout(controller: AbortController, ms: number) {
+  let timer: NodeJS.Timeout | undefined;
+
+  const clear = () => clearTimeout(timer);
+  const restart = () => {
+    clear();
+    timer = setTimeout(() => {
+      controller.abort(new DOMException(`No response data for ${ms}ms`, "TimeoutError"));
+    }, ms);
+    // A body nobody reads to the end must not keep the process alive
+    timer.unref();
+  };
+
+  /** Same response, with the timer restarted on every body chunk */
+  const watchBody = (res: Response): Response => {
+    if (!res.body) {
+      clear();
+      return res;
+    }
+
+    const body = res.body.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, stream) {
+          restart();
+          stream.enqueue(chunk);
+        },
+        flush: clear,
+      })
+    );
+
+    return new Response(body, {
+      status: res.status,
+      statusText: res.statusText,
+      headers: res.headers,
+    });
+  };
+
+  restart();
+  return { clear, watchBody };
+}
+
+/**
+ * fetch() with a timeout, retries and rate limiting.
+ * Resolves with the final response (which may still be !ok); rejects only when
+ * the last attempt fails at the network level or times out.
+ */
+export async function fetchWithRetry(
+  input: string | URL,
+  init: RequestInit = {}
+): Promise<Response> {
+  const method = (init.method ?? "GET").toUpperCase();
+  // Only retry non-idempotent requests when the server explicitly refused them
+  const idempotent = IDEMPOTENT_METHODS.has(method);
+
+  for (let attempt = 0; ; attempt++) {
+    await waitForSlot();
+
+    const isLastAttempt = attempt >= settings.maxRetries;
+    const controller = new AbortController();
+    const timeout = idleTimeout(controller, settings.timeoutMs);
+    let res: Response;
+
+    try {
+      res = await fetch(input, { ...init, signal: controller.signal });
+    } catch (err) {
+      timeout.clear();
+      if (isLastAttempt || !idempotent) {
+        throw err;
+      }
+      const wait = backoffDelay(attempt);
+      console.error(
+        `Request to ${input} failed (${(err as Error).message}), retrying in ${Math.round(wait)}ms...`
+      );
+      await delay(wait);
+      continue;
+    }
+
+    const retryable =
+      res.status === 429 || (idempotent && isRetryableStatus(res.status));
+
+    if (!retryable || isLastAttempt) {
+      return timeout.watchBody(res);
+    }
+
+    timeout.clear();
+
+    const retryAfter = parseRetryAfter(res.headers.get("retry-after"));
+    const wait = Math.min(retryAfter ?? backoffDelay(attempt), settings.maxDelayMs);
+
+    if (res.status === 429) {
+      // Back off globally so other workers don't keep hitting the limit
+      nextRequestAt = Math.max(nextRequestAt, Date.now() + wait);
+    }
+
+    // Release the connection before retrying
+    await res.body?.cancel().catch(() => {});
+
+    console.error(
+      `Request to ${input} returned ${res.status}, retrying in ${Math.round(wait)}ms (attempt ${attempt + 1}/${settings.maxRetries})...`
+    );
+    await delay(wait);
+  }
+}
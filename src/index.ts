@@ -1,81 +1,124 @@
 import * as clack from "@clack/prompts";
-import { getRecentNpmPackages, type PackageInfo } from "./get-recent-npm.js";
+import {
+  getRecentNpmPackages,
+  type PackageInfo,
+  type TyposquatOptions,
+} from "./get-recent-npm.js";
+import { configureHttp } from "./http-client.js";
+import { watchNewPackages } from "./watch-mode.js";
 import { postPackagesToMattermost } from "./mattermost-post.js";
-import { parseCliArgs, printHelp } from "./cli-args.js";
-import { parseDateRange, formatDaysAsRange } from "./date-parser.js";
-import { writeFile, readFile, access, mkdir } from "fs/promises";
+import { parseCliArgs, printHelp, type CliArgs } from "./cli-args.js";
+import {
+  CONFIG_FILE_NAME,
+  applyProfile,
+  findConfigFile,
+  loadConfigFile,
+  type ConfigFile,
+} from "./config-file.js";
+import {
+  formatDaysAsRange,
+  isNamedRange,
+  resolveDateWindow,
+  validateDateRange,
+  validateTimeZone,
+  windowDays,
+  type DateWindow,
+} from "./date-parser.js";
+import { compileQuery, parseSearchQuery } from "./search-query.js";
+import { MATCH_MODES, type MatchMode } from "./description-filter.js";
+import { SORT_KEYS } from "./relevance.js";
+import { JS_LINES_METRICS } from "./source-metrics.js";
+import { MODULE_FORMATS } from "./module-format.js";
+import {
+  DEFAULT_STATE_FILE,
+  checkpointKeyFor,
+  loadCheckpoint,
+  saveCheckpoint,
+} from "./checkpoint-store.js";
+import {
+  loadListFile,
+  splitListEntries,
+  type PublisherLists,
+} from "./publisher-lists.js";
+import { parseDependencyQuery, type DependencyQuery } from "./dependency-filter.js";
+import { loadPopularNames } from "./typosquat.js";
+import { resolveRegistryConfig, type RegistryConfig } from "./registry-config.js";
+import { parseCsvFile } from "./csv-file.js";
+import {
+  OUTPUT_FORMATS,
+  OUTPUT_FORMATTERS,
+  isOutputFormat,
+  type OutputFormatName,
+} from "./output-formats.js";
+import { writeFile, access, mkdir } from "fs/promises";
+import { dirname } from "path";
 import { exec, spawn } from "child_process";
 import { promisify } from "util";
 
 const execAsync = promisify(exec);
 
-async function parseCsvFile(filePath: string): Promise<PackageInfo[]> {
-  const content = await readFile(filePath, "utf-8");
-  const lines = content.split("\n").filter(line => line.trim());
-
-  if (lines.length < 2) {
-    throw new Error("CSV file is empty or has no data rows");
+/** Process exit codes, so cron and CI can tell outcomes apart */
+const EXIT_CODES = {
+  success: 0,
+  /** Invalid arguments, unreadable input or an unexpected error */
+  fatal: 1,
+  noResults: 2,
+  /** Results were written, but some packages, summaries or posts failed */
+  partialFailure: 3,
+} as const;
+
+/**
+ * Combine scope/maintainer lists from flags and list files.
+ */
+async function loadPublisherLists(args: CliArgs): Promise<PublisherLists> {
+  const allowed = splitListEntries([...(args.includeScopes ?? []), ...(args.includeMaintainers ?? [])]);
+  const denied = splitListEntries([...(args.excludeScopes ?? []), ...(args.excludeMaintainers ?? [])]);
+
+  for (const file of args.allowListFiles ?? []) {
+    const entries = await loadListFile(file);
+    allowed.scopes.push(...entries.scopes);
+    allowed.maintainers.push(...entries.maintainers);
   }
 
-  const headers = lines[0].split(",").map(h => h.trim().replace(/^"|"$/g, ""));
-  const packages: PackageInfo[] = [];
-
-  for (let i = 1; i < lines.length; i++) {
-    const values = parseCsvLine(lines[i]);
-
-    const nameIdx = headers.indexOf("Name");
-    const versionIdx = headers.indexOf("Version");
-    const descIdx = headers.indexOf("Description");
-    const publishedIdx = headers.indexOf("Published");
-    const versionsIdx = headers.indexOf("Versions");
-    const cliIdx = headers.indexOf("Has CLI");
-    const jsLinesIdx = headers.indexOf("JS Lines");
-    const urlIdx = headers.indexOf("URL");
-
-    if (nameIdx === -1 || versionIdx === -1) {
-      throw new Error("CSV must have Name and Version columns");
-    }
-
-    packages.push({
-      name: values[nameIdx] || "",
-      version: values[versionIdx] || "",
-      description: values[descIdx] || "",
-      publishedAt: values[publishedIdx] ? new Date(values[publishedIdx]) : new Date(),
-      npmUrl: values[urlIdx] || `https://www.npmjs.com/package/${values[nameIdx]}`,
-      numberOfVersions: values[versionsIdx] ? parseInt(values[versionsIdx], 10) : 1,
-      hasBin: values[cliIdx] === "Yes",
-      jsLines: values[jsLinesIdx] ? parseInt(values[jsLinesIdx], 10) : undefined,
-    });
+  for (const file of args.denyListFiles ?? []) {
+    const entries = await loadListFile(file);
+    denied.scopes.push(...entries.scopes);
+    denied.maintainers.push(...entries.maintainers);
   }
 
-  return packages;
+  return {
+    includeScopes: allowed.scopes,
+    includeMaintainers: allowed.maintainers,
+    excludeScopes: denied.scopes,
+    excludeMaintainers: denied.maintainers,
+  };
 }
 
-function parseCsvLine(line: string): string[] {
-  const values: string[] = [];
-  let current = "";
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === "," && !inQuotes) {
-      values.push(current);
-      current = "";
-    } else {
-      current += char;
-    }
+/**
+ * Typosquat options from --flag-typosquats / --only-typosquats / --popular-list.
+ */
+async function loadTyposquatOptions(
+  args: CliArgs
+): Promise<TyposquatOptions | undefined> {
+  if (!args.flagTyposquats && !args.onlyTyposquats) {
+    return undefined;
   }
+  return {
+    mode: args.onlyTyposquats ? "only" : "flag",
+    popularNames: args.popularListFile ? await loadPopularNames(args.popularListFile) : undefined,
+  };
+}
 
-  values.push(current);
-  return values;
+/**
+ * Check that a search query parses and every term is valid for the match mode.
+ * Returns an error message, or undefined if the query is usable.
+ */
+function validateSearch(search: string, mode: MatchMode | undefined): string | undefined {
+  try {
+    compileQuery(parseSearchQuery(search), { mode });
+  } catch (err) {
+    return (err as Error).message;
+  }
 }
 
 async function checkClaudeCodeAvailable(): Promise<boolean> {
@@ -89,8 +132,12 @@ async function checkClaudeCodeAvailable(): Promise<boolean> {
   }
 }
 
-async function generateAiSummaries(packages: PackageInfo[]): Promise<void> {
+/**
+ * Summarize each package with Claude Code. Returns how many summaries failed.
+ */
+async function generateAiSummaries(packages: PackageInfo[]): Promise<number> {
   console.log("\nAI Summaries:\n");
+  let failed = 0;
 
   for (const pkg of packages) {
     const prompt = `Research this npm package and any technologies it integrates with. Then summarize in 10 words max. Sacrifice grammar for extreme brevity. Focus on what it does and what it integrates with, not quality.
@@ -143,34 +190,430 @@ Response format: Just the summary, nothing else.`;
       });
     } catch (err) {
       // Error already logged above
+      failed++;
     }
   }
+
+  return failed;
+}
+
+/**
+ * Packages named by --summarize: "all", "none" or a comma-separated list.
+ * Names that aren't among the packages are returned as missing.
+ */
+function selectByName(
+  packages: PackageInfo[],
+  summarize: string
+): { selected: PackageInfo[]; missing: string[] } {
+  const value = summarize.trim().toLowerCase();
+  if (value === "all") {
+    return { selected: packages, missing: [] };
+  }
+  if (value === "none") {
+    return { selected: [], missing: [] };
+  }
+
+  const names = value.split(",").map((name) => name.trim()).filter((name) => name.length > 0);
+  return {
+    selected: packages.filter((pkg) => names.includes(pkg.name.toLowerCase())),
+    missing: names.filter((name) => !packages.some((pkg) => pkg.name.toLowerCase() === name)),
+  };
+}
+
+/**
+ * Generate AI summaries for the packages picked by --summarize, or by prompting
+ * in interactive runs. Returns false if any requested summary failed.
+ */
+async function runAiSummaries(
+  packages: PackageInfo[],
+  summarize: string | undefined,
+  interactive: boolean
+): Promise<boolean> {
+  let selectedPackages: PackageInfo[] = [];
+  let ok = true;
+
+  if (summarize !== undefined) {
+    const { selected, missing } = selectByName(packages, summarize);
+    if (missing.length > 0) {
+      clack.log.warn(`Not in the results, so not summarized: ${missing.join(", ")}`);
+      ok = false;
+    }
+    selectedPackages = selected;
+  } else if (interactive) {
+    // Check if Claude Code is available before asking
+    const claudeAvailable = await checkClaudeCodeAvailable();
+
+    // Ask if user wants AI summaries
+    const wantsSummaries = await clack.confirm({
+      message: claudeAvailable
+        ? "Generate AI summaries for selected packages?"
+        : "Generate AI summaries for selected packages? (Note: Claude Code CLI not detected)",
+      initialValue: false,
+    });
+
+    if (clack.isCancel(wantsSummaries)) {
+      clack.cancel("Operation cancelled.");
+      process.exit(0);
+    }
+
+    if (!wantsSummaries) {
+      return true;
+    }
+
+    if (!claudeAvailable) {
+      clack.log.error("Claude Code CLI not found. Please install it or ensure it's in your PATH.");
+      clack.log.info("Install from: https://github.com/anthropics/claude-code");
+      return true;
+    }
+
+    // Let user select which packages to summarize
+    const packageChoices = packages.map((pkg, idx) => ({
+      value: idx,
+      label: `${pkg.name} - ${pkg.description.substring(0, 60)}${pkg.description.length > 60 ? '...' : ''}`,
+    }));
+
+    const selectedIndices = await clack.multiselect({
+      message: "Select packages to summarize (space to select, enter to confirm)",
+      options: packageChoices,
+      required: false,
+    });
+
+    if (clack.isCancel(selectedIndices)) {
+      clack.cancel("Operation cancelled.");
+      process.exit(0);
+    }
+
+    selectedPackages = ((selectedIndices as number[]) ?? []).map(idx => packages[idx]);
+  }
+
+  if (selectedPackages.length === 0) {
+    return ok;
+  }
+
+  const spinner = clack.spinner();
+  spinner.start("Generating AI summaries...");
+  const failed = await generateAiSummaries(selectedPackages);
+  if (failed > 0) {
+    spinner.stop(`${failed} of ${selectedPackages.length} AI summaries failed`);
+    return false;
+  }
+  spinner.stop("AI summaries generated!");
+  return ok;
+}
+
+let writeToStdout: ((text: string) => void) | undefined;
+
+/**
+ * Reserve stdout for results (--output -): from here on everything else that
+ * writes to stdout (prompts, progress logs) goes to stderr instead.
+ */
+function claimStdout(): (text: string) => void {
+  if (!writeToStdout) {
+    const write = process.stdout.write.bind(process.stdout);
+    process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+    writeToStdout = (text) => {
+      write(text);
+    };
+  }
+  return writeToStdout;
+}
+
+/**
+ * Where one format's output goes. With several formats, --output's extension
+ * is replaced by each format's own.
+ */
+function outputPath(
+  output: string | undefined,
+  extension: string,
+  multipleFormats: boolean,
+  timestamp: number
+): string {
+  if (output === undefined) {
+    return `out/npm-packages-${timestamp}.${extension}`;
+  }
+  if (output === "-" || !multipleFormats) {
+    return output;
+  }
+  return `${output.replace(/\.[^./\\]*$/, "")}.${extension}`;
+}
+
+/**
+ * Under --all-profiles, keep profiles from overwriting each other's files:
+ * "out/new.csv" becomes "out/new-<profile>.csv".
+ */
+function profileOutputPath(output: string | undefined, profileName: string): string | undefined {
+  if (output === undefined || output === "-") {
+    return output;
+  }
+  const suffix = profileName.replace(/[^\w.-]+/g, "-");
+  return output.replace(/(\.[^./\\]*)?$/, (extension) => `-${suffix}${extension}`);
+}
+
+/**
+ * Write results in each --format (CSV by default). A failed write throws.
+ */
+async function writeOutputs(packages: PackageInfo[], args: CliArgs): Promise<void> {
+  const formats = (args.formats ?? ["csv"]) as OutputFormatName[];
+  const timestamp = Date.now();
+
+  for (const name of formats) {
+    const formatter = OUTPUT_FORMATTERS[name];
+    const path = outputPath(args.output, formatter.extension, formats.length > 1, timestamp);
+    const content = formatter.format(packages);
+
+    if (path === "-") {
+      claimStdout()(content);
+      continue;
+    }
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, content, "utf-8");
+    clack.log.info(`${name.toUpperCase()} file saved: ${path}`);
+  }
+}
+
+/**
+ * Write results (see writeOutputs) and post to Mattermost (unless --no-post).
+ * Returns false if posting failed; a failed write is fatal and throws.
+ */
+async function writeResults(
+  packages: PackageInfo[],
+  args: CliArgs,
+  webhookUrl: string | undefined
+): Promise<boolean> {
+  await writeOutputs(packages, args);
+
+  if (!webhookUrl || args.post === false) {
+    return true;
+  }
+
+  const spinner = clack.spinner();
+  spinner.start("Posting to Mattermost...");
+  try {
+    await postPackagesToMattermost(packages, webhookUrl, {
+      includeReadme: args.postReadme,
+    });
+    spinner.stop("Posted to Mattermost!");
+    return true;
+  } catch (err) {
+    spinner.stop("Posting to Mattermost failed");
+    clack.log.warn(`Could not post to Mattermost: ${(err as Error).message}`);
+    return false;
+  }
+}
+
+/**
+ * Fatal and partial failures outrank everything; "no results" only if no
+ * profile found anything.
+ */
+function combineExitCodes(codes: number[]): number {
+  for (const code of [EXIT_CODES.fatal, EXIT_CODES.partialFailure]) {
+    if (codes.includes(code)) {
+      return code;
+    }
+  }
+  return codes.every((code) => code === EXIT_CODES.noResults) ? EXIT_CODES.noResults : EXIT_CODES.success;
 }
 
 async function main() {
-  const args = parseCliArgs(process.argv.slice(2));
+  const cliArgs = parseCliArgs(process.argv.slice(2));
 
-  if (args.help) {
+  if (cliArgs.help) {
     printHelp();
     return;
   }
 
-  const webhookUrl = process.env.MATTERMOST_WEBHOOK_URL;
+  let config: ConfigFile | undefined;
+  try {
+    const configPath = await findConfigFile(cliArgs.configFile);
+    config = configPath ? await loadConfigFile(configPath) : undefined;
+  } catch (err) {
+    clack.log.error((err as Error).message);
+    process.exit(EXIT_CODES.fatal);
+  }
+
+  if (!cliArgs.allProfiles) {
+    let args: CliArgs;
+    try {
+      args = applyProfile(config, cliArgs.profile, cliArgs);
+    } catch (err) {
+      clack.log.error((err as Error).message);
+      process.exit(EXIT_CODES.fatal);
+    }
+    if (args.output === "-") {
+      claimStdout();
+    }
+    process.exitCode = await run(args, cliArgs.profile);
+    return;
+  }
+
+  const profileNames = Object.keys(config?.profiles ?? {});
+  if (cliArgs.profile !== undefined || cliArgs.watch) {
+    clack.log.error("--all-profiles can't be combined with --profile or --watch");
+    process.exit(EXIT_CODES.fatal);
+  }
+  if (profileNames.length === 0) {
+    clack.log.error(
+      config ? `${config.path} defines no profiles` : `--all-profiles needs a ${CONFIG_FILE_NAME} with profiles`
+    );
+    process.exit(EXIT_CODES.fatal);
+  }
 
-  clack.intro("NPM Package Search");
+  // A watching profile would never return and hold up the rest
+  const watching = profileNames.filter((name) => applyProfile(config, name, cliArgs).watch);
+  if (watching.length > 0) {
+    clack.log.error(
+      `--all-profiles can't run profiles that set "watch": ${watching.join(", ")} (run them with --profile instead)`
+    );
+    process.exit(EXIT_CODES.fatal);
+  }
+
+  // Profiles share stdout, and only NDJSON stays valid with one document after another
+  const toStdout = profileNames.filter((name) => applyProfile(config, name, cliArgs).output === "-");
+  const notNdjson = toStdout.filter((name) =>
+    (applyProfile(config, name, cliArgs).formats ?? ["csv"]).some((format) => format !== "ndjson")
+  );
+  if (notNdjson.length > 0) {
+    clack.log.error(
+      `--all-profiles can only write --format ndjson to --output -, not for: ${notNdjson.join(", ")}`
+    );
+    process.exit(EXIT_CODES.fatal);
+  }
+  if (toStdout.length > 0) {
+    claimStdout();
+  }
+
+  // One failing profile (registry down, webhook rejected) shouldn't stop the rest
+  const codes: number[] = [];
+  for (const name of profileNames) {
+    try {
+      const args = applyProfile(config, name, cliArgs);
+      codes.push(await run({ ...args, output: profileOutputPath(args.output, name) }, name));
+    } catch (err) {
+      clack.log.error(`Profile "${name}" failed: ${(err as Error).message}`);
+      codes.push(EXIT_CODES.fatal);
+    }
+  }
+  process.exitCode = combineExitCodes(codes);
+}
+
+/**
+ * Every numeric setting with the smallest value that makes sense for it.
+ */
+const NUMERIC_ARGS: Array<[flag: string, key: keyof CliArgs, min: number]> = [
+  ["--min-js-lines", "minJsLines", 0],
+  ["--max-package-size", "maxPackageSize", 0],
+  ["--min-unpacked-size", "minUnpackedSize", 0],
+  ["--max-unpacked-size", "maxUnpackedSize", 0],
+  ["--min-file-count", "minFileCount", 0],
+  ["--max-results", "maxResults", 1],
+  ["--candidates", "candidates", 0],
+  ["--changes-limit", "changesLimit", 1],
+  ["--max-pages", "maxPages", 1],
+  ["--max-deps", "maxDeps", 0],
+  ["--max-junk-score", "maxJunkScore", 0],
+  ["--watch-interval", "watchInterval", 1],
+  ["--cache-ttl", "cacheTtl", 0],
+  ["--max-retries", "maxRetries", 0],
+  ["--request-timeout", "requestTimeout", 1],
+  ["--rate-limit", "rateLimit", 0],
+];
+
+/**
+ * Error message for the first numeric setting (from a flag or a config file)
+ * that isn't a number or is out of range.
+ */
+function validateNumericArgs(args: CliArgs): string | undefined {
+  for (const [flag, key, min] of NUMERIC_ARGS) {
+    const value = args[key];
+    if (value !== undefined && (typeof value !== "number" || Number.isNaN(value) || value < min)) {
+      return `Invalid value for ${flag}: expected a number of at least ${min}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * One search (or CSV run, or watch) with fully resolved arguments.
+ * Returns the exit code, including EXIT_CODES.fatal for invalid arguments, so
+ * --all-profiles can carry on with the next profile.
+ */
+async function run(args: CliArgs, profileName?: string): Promise<number> {
+  const numberError = validateNumericArgs(args);
+  if (numberError) {
+    clack.log.error(numberError);
+    return EXIT_CODES.fatal;
+  }
+
+  const webhookUrl = args.webhookUrl ?? process.env.MATTERMOST_WEBHOOK_URL;
+  // Without a terminal there's nobody to answer prompts (cron, CI, pipes)
+  const interactive = !args.nonInteractive && process.stdin.isTTY === true;
+
+  configureHttp({
+    maxRetries: args.maxRetries,
+    timeoutMs: args.requestTimeout !== undefined ? args.requestTimeout * 1000 : undefined,
+    requestsPerSecond: args.rateLimit,
+  });
+
+  let registry: RegistryConfig;
+  try {
+    registry = resolveRegistryConfig({
+      registryUrl: args.registryUrl,
+      changesUrl: args.changesUrl,
+      packageUrlBase: args.packageUrlBase,
+      token: args.registryToken,
+    });
+  } catch (err) {
+    clack.log.error((err as Error).message);
+    return EXIT_CODES.fatal;
+  }
+
+  clack.intro(profileName ? `NPM Package Search: ${profileName}` : "NPM Package Search");
 
   if (!webhookUrl) {
     clack.log.warn("MATTERMOST_WEBHOOK_URL not set - results will not be posted to Mattermost");
+  } else if (args.post === false) {
+    clack.log.info("Posting to Mattermost disabled (--no-post)");
   } else {
     clack.log.info("Results will be posted to Mattermost");
   }
 
-  // First question: ask if they want to process an existing CSV
-  const csvFileInput = await clack.text({
-    message: "Process existing CSV file? (leave empty to search for new packages)",
-    placeholder: "e.g., out/npm-packages-1234567890.csv",
-    defaultValue: "",
-  });
+  if (args.csv !== undefined && args.watch) {
+    clack.log.error("--csv can't be used with --watch");
+    return EXIT_CODES.fatal;
+  }
+
+  // Summaries that were asked for up front must be possible before any work starts
+  if (args.summarize !== undefined) {
+    if (!args.summarize.trim()) {
+      clack.log.error('--summarize needs "all", "none" or a comma-separated list of package names');
+      return EXIT_CODES.fatal;
+    }
+    if (args.summarize.trim().toLowerCase() !== "none" && !(await checkClaudeCodeAvailable())) {
+      clack.log.error("--summarize needs the Claude Code CLI, which was not found in your PATH.");
+      clack.log.info("Install from: https://github.com/anthropics/claude-code");
+      return EXIT_CODES.fatal;
+    }
+  }
+
+  const formats = args.formats ?? [];
+  const unknownFormat = formats.find((name) => !isOutputFormat(name));
+  if (unknownFormat !== undefined) {
+    clack.log.error(`Invalid format "${unknownFormat}". Valid formats: ${OUTPUT_FORMATS.join(", ")}`);
+    return EXIT_CODES.fatal;
+  }
+  if (args.output === "-" && formats.length > 1) {
+    clack.log.error("--output - can only take one --format");
+    return EXIT_CODES.fatal;
+  }
+
+  // First question: ask if they want to process an existing CSV (not relevant when watching)
+  const csvFileInput = args.csv !== undefined || args.watch || !interactive
+    ? args.csv ?? ""
+    : await clack.text({
+        message: "Process existing CSV file? (leave empty to search for new packages)",
+        placeholder: "e.g., out/npm-packages-1234567890.csv",
+        defaultValue: "",
+      });
 
   if (clack.isCancel(csvFileInput)) {
     clack.cancel("Operation cancelled.");
@@ -186,105 +629,104 @@ async function main() {
       await access(csvFilePath);
     } catch {
       clack.log.error(`File not found: ${csvFilePath}`);
-      process.exit(1);
+      return EXIT_CODES.fatal;
     }
 
     try {
-      const packages = await parseCsvFile(csvFilePath);
-      clack.log.success(`Loaded ${packages.length} package(s) from CSV!`);
-
-      // Check if Claude Code is available before asking
-      const claudeAvailable = await checkClaudeCodeAvailable();
-
-      // Ask if user wants AI summaries
-      const wantsSummaries = await clack.confirm({
-        message: claudeAvailable
-          ? "Generate AI summaries for selected packages?"
-          : "Generate AI summaries for selected packages? (Note: Claude Code CLI not detected)",
-        initialValue: false,
-      });
-
-      if (clack.isCancel(wantsSummaries)) {
-        clack.cancel("Operation cancelled.");
-        process.exit(0);
-      }
-
-      if (wantsSummaries) {
-        if (!claudeAvailable) {
-          clack.log.error("Claude Code CLI not found. Please install it or ensure it's in your PATH.");
-          clack.log.info("Install from: https://github.com/anthropics/claude-code");
-          clack.outro("Done!");
-          return;
-        }
-
-        // Let user select which packages to summarize
-        const packageChoices = packages.map((pkg, idx) => ({
-          value: idx,
-          label: `${pkg.name} - ${pkg.description.substring(0, 60)}${pkg.description.length > 60 ? '...' : ''}`,
-        }));
-
-        const selectedIndices = await clack.multiselect({
-          message: "Select packages to summarize (space to select, enter to confirm)",
-          options: packageChoices,
-          required: false,
-        });
-
-        if (clack.isCancel(selectedIndices)) {
-          clack.cancel("Operation cancelled.");
-          process.exit(0);
-        }
-
-        if (selectedIndices && (selectedIndices as number[]).length > 0) {
-          const selectedPackages = (selectedIndices as number[]).map(idx => packages[idx]);
-          const spinner = clack.spinner();
-          spinner.start("Generating AI summaries...");
-          try {
-            await generateAiSummaries(selectedPackages);
-            spinner.stop("AI summaries generated!");
-          } catch (err) {
-            spinner.stop("Failed to generate summaries");
-            clack.log.warn(`Could not generate summaries: ${(err as Error).message}`);
-          }
+      const packages = await parseCsvFile(csvFilePath, registry);
+      if (packages.length === 0) {
+        // e.g. the export of a search that found nothing
+        clack.log.warn("The CSV file has no packages.");
+        if (args.output !== undefined) {
+          await writeOutputs(packages, args);
         }
+        clack.outro("Done!");
+        return EXIT_CODES.noResults;
       }
+      clack.log.success(`Loaded ${packages.length} package(s) from CSV!`);
 
-      // Generate new CSV with updated data
-      await mkdir("out", { recursive: true });
-      const newCsvPath = `out/npm-packages-${Date.now()}.csv`;
-      const csvContent = generateCsv(packages);
-      await writeFile(newCsvPath, csvContent, "utf-8");
-      clack.log.info(`New CSV file saved: ${newCsvPath}`);
-
-      if (webhookUrl) {
-        const spinner = clack.spinner();
-        spinner.start("Posting to Mattermost...");
-        await postPackagesToMattermost(packages, webhookUrl);
-        spinner.stop("Posted to Mattermost!");
-      }
+      const summariesOk = await runAiSummaries(packages, args.summarize, interactive);
+      const resultsOk = await writeResults(packages, args, webhookUrl);
 
       clack.outro("Done!");
-      return;
+      return summariesOk && resultsOk ? EXIT_CODES.success : EXIT_CODES.partialFailure;
     } catch (err) {
       clack.log.error(`Failed to process CSV: ${(err as Error).message}`);
-      process.exit(1);
+      return EXIT_CODES.fatal;
     }
   }
 
   let searchTerms = args.search;
   let dateRange = args.range;
   let partialMatch = args.partialMatch ?? true;
+  let searchMode: MatchMode | undefined =
+    args.searchMode ?? (args.partialMatch === undefined ? undefined : partialMatch ? "partial" : "word");
   let minJsLines = args.minJsLines;
   let maxResults = args.maxResults ?? 30;
   let changesLimit = args.changesLimit ?? 200;
   let maxPages = args.maxPages ?? 1000;
   let requireBin = args.requireBin ?? false;
 
+  let publisherLists: PublisherLists;
+  let typosquats: TyposquatOptions | undefined;
+  let dependsOn: DependencyQuery[] | undefined;
+  try {
+    publisherLists = await loadPublisherLists(args);
+    typosquats = await loadTyposquatOptions(args);
+    dependsOn = args.dependsOn?.map(parseDependencyQuery);
+  } catch (err) {
+    clack.log.error((err as Error).message);
+    return EXIT_CODES.fatal;
+  }
+
+  if (args.timeZone !== undefined) {
+    try {
+      validateTimeZone(args.timeZone);
+    } catch (err) {
+      clack.log.error((err as Error).message);
+      return EXIT_CODES.fatal;
+    }
+  }
+
+  if (args.sort !== undefined && !SORT_KEYS.includes(args.sort)) {
+    clack.log.error(`Invalid sort key "${args.sort}". Valid keys: ${SORT_KEYS.join(", ")}`);
+    return EXIT_CODES.fatal;
+  }
+
+  if (args.moduleFormat !== undefined && !MODULE_FORMATS.includes(args.moduleFormat)) {
+    clack.log.error(
+      `Invalid module format "${args.moduleFormat}". Valid formats: ${MODULE_FORMATS.join(", ")}`
+    );
+    return EXIT_CODES.fatal;
+  }
+
+  if (args.jsLinesMetric !== undefined && !JS_LINES_METRICS.includes(args.jsLinesMetric)) {
+    clack.log.error(
+      `Invalid JS lines metric "${args.jsLinesMetric}". Valid metrics: ${JS_LINES_METRICS.join(", ")}`
+    );
+    return EXIT_CODES.fatal;
+  }
+
+  if (searchMode !== undefined && !MATCH_MODES.includes(searchMode)) {
+    clack.log.error(`Invalid search mode "${searchMode}". Valid modes: ${MATCH_MODES.join(", ")}`);
+    return EXIT_CODES.fatal;
+  }
+
+  if (searchTerms !== undefined) {
+    const error = validateSearch(searchTerms, searchMode);
+    if (error) {
+      clack.log.error(`Invalid search query: ${error}`);
+      return EXIT_CODES.fatal;
+    }
+  }
+
   // Interactive prompts for missing values
-  if (searchTerms === undefined) {
+  if (searchTerms === undefined && interactive) {
     const searchInput = await clack.text({
       message: "Search for packages by name or description (leave empty to skip)",
-      placeholder: "e.g., react typescript",
+      placeholder: "e.g., react OR preact -native",
       defaultValue: "",
+      validate: (value) => validateSearch(value ?? "", searchMode),
     });
 
     if (clack.isCancel(searchInput)) {
@@ -295,15 +737,16 @@ async function main() {
     searchTerms = searchInput as string;
   }
 
-  if (dateRange === undefined) {
+  // --from/--to define the window on their own
+  if (dateRange === undefined && args.from === undefined && args.to === undefined && interactive) {
     const rangeInput = await clack.text({
       message: "Date range for packages",
-      placeholder: "e.g., 7d, 2w, 1m, 2y",
+      placeholder: "e.g., 12h, 7d, 2w, 1m, last-week",
       defaultValue: "7d",
       validate: (value) => {
         if (!value || value.trim() === "") return; // Allow empty to use default
         try {
-          parseDateRange(value);
+          validateDateRange(value);
         } catch (err) {
           return (err as Error).message;
         }
@@ -318,21 +761,46 @@ async function main() {
     dateRange = (rangeInput as string).trim() || "7d";
   }
 
-  if (searchTerms && searchTerms.trim().length > 0 && args.partialMatch === undefined) {
-    const partialMatchInput = await clack.confirm({
-      message: "Enable partial word matching? (e.g., 'react' matches 'reactivity')",
-      initialValue: true,
+  if (searchTerms && searchTerms.trim().length > 0 && searchMode === undefined && interactive) {
+    const searchModeInput = await clack.select({
+      message: "How should search terms be matched?",
+      options: [
+        { value: "partial", label: "Partial words", hint: "'react' matches 'reactivity'" },
+        { value: "word", label: "Whole words only" },
+        { value: "regex", label: "Regular expressions", hint: "/^create-.+-app$/" },
+        { value: "glob", label: "Glob patterns", hint: "eslint-plugin-*, @myorg/*" },
+      ],
+      initialValue: "partial",
     });
 
-    if (clack.isCancel(partialMatchInput)) {
+    if (clack.isCancel(searchModeInput)) {
       clack.cancel("Operation cancelled.");
       process.exit(0);
     }
 
-    partialMatch = partialMatchInput as boolean;
+    searchMode = searchModeInput as MatchMode;
+    partialMatch = searchMode !== "word";
+
+    // Terms that were fine as text may not be valid patterns in the chosen mode
+    while (validateSearch(searchTerms, searchMode)) {
+      clack.log.error(`Invalid search query: ${validateSearch(searchTerms, searchMode)}`);
+
+      const searchInput = await clack.text({
+        message: `Search query (${searchMode} mode)`,
+        initialValue: searchTerms,
+        validate: (value) => validateSearch(value ?? "", searchMode),
+      });
+
+      if (clack.isCancel(searchInput)) {
+        clack.cancel("Operation cancelled.");
+        process.exit(0);
+      }
+
+      searchTerms = searchInput as string;
+    }
   }
 
-  if (minJsLines === undefined) {
+  if (minJsLines === undefined && interactive) {
     const jsLinesInput = await clack.text({
       message: "Minimum JavaScript lines (leave empty to skip this filter)",
       placeholder: "e.g., 100, 500, 1000",
@@ -355,7 +823,7 @@ async function main() {
     minJsLines = jsLinesStr && jsLinesStr.trim() ? parseInt(jsLinesStr, 10) : undefined;
   }
 
-  if (args.requireBin === undefined) {
+  if (args.requireBin === undefined && interactive) {
     const binInput = await clack.confirm({
       message: "Only show packages with CLI binaries?",
       initialValue: false,
@@ -369,145 +837,213 @@ async function main() {
     requireBin = binInput as boolean;
   }
 
-  // Parse date range
-  const parsedRange = parseDateRange(dateRange);
-  const daysBack = parsedRange.days;
+  // Resolve the publish window
+  let window: DateWindow;
+  try {
+    window = resolveDateWindow({
+      range: dateRange,
+      from: args.from,
+      to: args.to,
+      timeZone: args.timeZone,
+    });
+  } catch (err) {
+    clack.log.error((err as Error).message);
+    return EXIT_CODES.fatal;
+  }
+  const daysBack = windowDays(window);
+
+  if (args.watch && (args.from !== undefined || args.to !== undefined)) {
+    clack.log.error("--from/--to can't be used with --watch (use --range for how far back to look)");
+    return EXIT_CODES.fatal;
+  }
+
+  // Watching always looks back from the current moment; a calendar range would silently change meaning
+  if (args.watch && dateRange !== undefined && isNamedRange(dateRange.trim())) {
+    clack.log.error(
+      `Named range "${dateRange}" can't be used with --watch (use a trailing range like 7d for how far back to look)`
+    );
+    return EXIT_CODES.fatal;
+  }
+
+  // Resolve the changes-feed checkpoint for incremental runs
+  const stateFile = args.stateFile ?? DEFAULT_STATE_FILE;
+  const checkpointKey = args.checkpointName ?? checkpointKeyFor(searchTerms);
+  let sinceSeq = args.sinceSeq;
+
+  if (args.sinceLastRun && sinceSeq === undefined) {
+    const checkpoint = await loadCheckpoint(stateFile, checkpointKey);
+    if (checkpoint) {
+      sinceSeq = checkpoint.lastSeq;
+      clack.log.info(
+        `Resuming "${checkpointKey}" from seq ${checkpoint.lastSeq} (saved ${checkpoint.updatedAt})`
+      );
+    } else {
+      clack.log.info(`No checkpoint saved for "${checkpointKey}" yet - scanning from the newest changes`);
+    }
+  }
+
+  const cacheOptions = {
+    cacheDir: args.cacheDir,
+    ttlMs: args.cacheTtl !== undefined ? args.cacheTtl * 60 * 1000 : undefined,
+  };
+
+  if (args.watch) {
+    const controller = new AbortController();
+    process.once("SIGINT", () => {
+      clack.log.info("Stopping watch...");
+      controller.abort();
+    });
+
+    clack.log.info("Watching for new packages (Ctrl+C to stop)");
+    let failedPosts = 0;
+    let skippedPackages = 0;
+
+    await watchNewPackages({
+      daysBack,
+      searchTerms: searchTerms || "",
+      partialMatch,
+      searchMode,
+      minJsLines,
+      jsLinesMetric: args.jsLinesMetric,
+      scanCapabilities: args.scanCapabilities,
+      maxPackageBytes:
+        args.maxPackageSize !== undefined ? args.maxPackageSize * 1024 * 1024 : undefined,
+      minUnpackedSize: args.minUnpackedSize,
+      maxUnpackedSize: args.maxUnpackedSize,
+      minFileCount: args.minFileCount,
+      requireBin,
+      requireTypes: args.requireTypes,
+      moduleFormat: args.moduleFormat,
+      installScripts: args.installScripts,
+      licenses: args.licenses,
+      authors: args.authors,
+      keywords: args.keywords,
+      dependsOn,
+      maxDeps: args.maxDeps,
+      publisherLists,
+      typosquats,
+      maxJunkScore: args.maxJunkScore,
+      registry,
+      cacheOptions,
+      changesLimit,
+      startSeq: sinceSeq,
+      pollIntervalMs: (args.watchInterval ?? 30) * 1000,
+      signal: controller.signal,
+      onMatch: async (info) => {
+        clack.log.success(`${info.name}@${info.version} - ${info.description || "(no description)"}`);
+        if (webhookUrl && args.post !== false) {
+          try {
+            await postPackagesToMattermost([info], webhookUrl, {
+              includeReadme: args.postReadme,
+            });
+          } catch (err) {
+            failedPosts++;
+            clack.log.warn(`Could not post ${info.name}: ${(err as Error).message}`);
+          }
+        }
+      },
+      onCheckpoint: args.sinceLastRun
+        ? (seq) => saveCheckpoint(stateFile, checkpointKey, seq)
+        : undefined,
+      onSkipped: (skipped) => {
+        skippedPackages += skipped.length;
+        clack.log.warn(
+          `${skipped.length} package(s) skipped due to errors:\n` +
+            skipped.map((s) => `  ${s.name}: ${s.reason}`).join("\n")
+        );
+      },
+    });
+
+    clack.outro("Done!");
+    return failedPosts > 0 || skippedPackages > 0 ? EXIT_CODES.partialFailure : EXIT_CODES.success;
+  }
 
   const spinner = clack.spinner();
   spinner.start("Fetching recent npm packages...");
 
   try {
-    const packages = await getRecentNpmPackages({
+    const { packages, seqRange, skipped } = await getRecentNpmPackages({
       changesLimit,
       maxResults,
+      maxCandidates: args.candidates,
+      sort: args.sort,
       daysBack,
+      window,
       searchTerms: searchTerms || "",
       partialMatch,
+      searchMode,
       minJsLines,
+      jsLinesMetric: args.jsLinesMetric,
+      scanCapabilities: args.scanCapabilities,
+      maxPackageBytes:
+        args.maxPackageSize !== undefined ? args.maxPackageSize * 1024 * 1024 : undefined,
+      minUnpackedSize: args.minUnpackedSize,
+      maxUnpackedSize: args.maxUnpackedSize,
+      minFileCount: args.minFileCount,
       maxPages,
       requireBin,
+      requireTypes: args.requireTypes,
+      moduleFormat: args.moduleFormat,
+      installScripts: args.installScripts,
+      licenses: args.licenses,
+      authors: args.authors,
+      keywords: args.keywords,
+      dependsOn,
+      maxDeps: args.maxDeps,
+      publisherLists,
+      typosquats,
+      maxJunkScore: args.maxJunkScore,
+      registry,
+      cacheOptions,
+      sinceSeq,
+      untilSeq: args.untilSeq,
     });
 
     spinner.stop("Search complete!");
 
-    if (packages.length === 0) {
-      clack.log.warn("No new packages found matching your criteria.");
-      clack.outro("Done!");
-      return;
+    if (skipped.length > 0) {
+      clack.log.warn(
+        `${skipped.length} package(s) skipped due to errors:\n` +
+          skipped.map((s) => `  ${s.name}: ${s.reason}`).join("\n")
+      );
     }
 
-    clack.log.success(`Found ${packages.length} package(s)!`);
-
-    // Check if Claude Code is available before asking
-    const claudeAvailable = await checkClaudeCodeAvailable();
-
-    // Ask if user wants AI summaries
-    const wantsSummaries = await clack.confirm({
-      message: claudeAvailable
-        ? "Generate AI summaries for selected packages?"
-        : "Generate AI summaries for selected packages? (Note: Claude Code CLI not detected)",
-      initialValue: false,
-    });
-
-    if (clack.isCancel(wantsSummaries)) {
-      clack.cancel("Operation cancelled.");
-      process.exit(0);
+    if (args.sinceLastRun && seqRange.checkpoint !== undefined) {
+      await saveCheckpoint(stateFile, checkpointKey, seqRange.checkpoint);
+      clack.log.info(`Saved checkpoint "${checkpointKey}" at seq ${seqRange.checkpoint}`);
+    } else if (args.sinceLastRun && seqRange.to !== undefined) {
+      clack.log.warn(
+        `Checkpoint "${checkpointKey}" not moved: the scan stopped early or skipped packages, so the same changes will be scanned again next run`
+      );
     }
 
-    if (wantsSummaries) {
-      if (!claudeAvailable) {
-        clack.log.error("Claude Code CLI not found. Please install it or ensure it's in your PATH.");
-        clack.log.info("Install from: https://github.com/anthropics/claude-code");
-      } else {
-        // Let user select which packages to summarize
-        const packageChoices = packages.map((pkg, idx) => ({
-          value: idx,
-          label: `${pkg.name} - ${pkg.description.substring(0, 60)}${pkg.description.length > 60 ? '...' : ''}`,
-        }));
-
-        const selectedIndices = await clack.multiselect({
-          message: "Select packages to summarize (space to select, enter to confirm)",
-          options: packageChoices,
-          required: false,
-        });
-
-        if (clack.isCancel(selectedIndices)) {
-          clack.cancel("Operation cancelled.");
-          process.exit(0);
-        }
-
-        if (selectedIndices && (selectedIndices as number[]).length > 0) {
-          const selectedPackages = (selectedIndices as number[]).map(idx => packages[idx]);
-          spinner.start("Generating AI summaries...");
-          try {
-            await generateAiSummaries(selectedPackages);
-            spinner.stop("AI summaries generated!");
-          } catch (err) {
-            spinner.stop("Failed to generate summaries");
-            clack.log.warn(`Could not generate summaries: ${(err as Error).message}`);
-          }
-        }
+    if (packages.length === 0) {
+      clack.log.warn("No new packages found matching your criteria.");
+      // An explicit destination still gets an empty document, e.g. [] for JSON
+      if (args.output !== undefined) {
+        await writeOutputs(packages, args);
       }
+      clack.outro("Done!");
+      return skipped.length > 0 ? EXIT_CODES.partialFailure : EXIT_CODES.noResults;
     }
 
-    // Generate CSV
-    await mkdir("out", { recursive: true });
-    const csvPath = `out/npm-packages-${Date.now()}.csv`;
-    const csvContent = generateCsv(packages);
-    await writeFile(csvPath, csvContent, "utf-8");
-    clack.log.info(`CSV file saved: ${csvPath}`);
-
-    if (webhookUrl) {
-      spinner.start("Posting to Mattermost...");
-      await postPackagesToMattermost(packages, webhookUrl);
-      spinner.stop("Posted to Mattermost!");
-    }
+    clack.log.success(`Found ${packages.length} package(s)!`);
+
+    const summariesOk = await runAiSummaries(packages, args.summarize, interactive);
+    const resultsOk = await writeResults(packages, args, webhookUrl);
 
     clack.outro("Done!");
+    return summariesOk && resultsOk && skipped.length === 0
+      ? EXIT_CODES.success
+      : EXIT_CODES.partialFailure;
   } catch (err) {
     spinner.stop("Error occurred");
     throw err;
   }
 }
 
-function generateCsv(packages: { name: string; version: string; description: string; publishedAt: Date; npmUrl: string; numberOfVersions: number; jsLines?: number; hasBin?: boolean }[]): string {
-  const hasJsLines = packages.some(pkg => pkg.jsLines !== undefined);
-
-  const headers = hasJsLines
-    ? ["Name", "Version", "Description", "Published", "Versions", "Has CLI", "JS Lines", "URL"]
-    : ["Name", "Version", "Description", "Published", "Versions", "Has CLI", "URL"];
-
-  const rows = packages.map((pkg) => {
-    const row = [
-      escapeCsv(pkg.name),
-      escapeCsv(pkg.version),
-      escapeCsv(pkg.description),
-      pkg.publishedAt.toISOString().split("T")[0],
-      pkg.numberOfVersions.toString(),
-      pkg.hasBin ? "Yes" : "No",
-    ];
-
-    if (hasJsLines) {
-      row.push(pkg.jsLines?.toString() || "0");
-    }
-
-    row.push(pkg.npmUrl);
-
-    return row.join(",");
-  });
-
-  return [headers.join(","), ...rows].join("\n");
-}
-
-function escapeCsv(value: string): string {
-  if (value.includes(",") || value.includes('"') || value.includes("\n")) {
-    return `"${value.replace(/"/g, '""')}"`;
-  }
-  return value;
-}
-
 main().catch((err) => {
   clack.log.error("Fatal error:");
   console.error(err);
-  process.exit(1);
+  process.exit(EXIT_CODES.fatal);
 });
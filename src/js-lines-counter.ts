@@ -1,134 +1,120 @@
 /**
  * Count JavaScript lines in an npm package by downloading and analyzing it.
+ * The same pass collects source metrics (see source-metrics.ts) and runs the
+ * static capability scan (see capability-scan.ts). Tarballs are read in
+ * memory (see tarball-reader.ts); nothing is extracted to disk.
  */
 
-import { createWriteStream } from "fs";
-import { mkdir, readdir, readFile, rm } from "fs/promises";
-import { join } from "path";
-import { pipeline } from "stream/promises";
-import { createGunzip } from "zlib";
-import { extract as tarExtract } from "tar";
-import { tmpdir } from "os";
-
-const NPM_REGISTRY_BASE = "https://registry.npmjs.org";
-
-interface JsLinesResult {
-  totalLines: number;
-  fileCount: number;
+import { createRegistryCache, type RegistryCache } from "./registry-cache.js";
+import { DEFAULT_REGISTRY_CONFIG, type RegistryConfig } from "./registry-config.js";
+import { createCapabilityScanner, type CapabilityReport } from "./capability-scan.js";
+import {
+  addSourceFile,
+  classifySourceFile,
+  emptySourceMetrics,
+  metricValue,
+  type JsLinesMetric,
+  type SourceMetrics,
+} from "./source-metrics.js";
+import {
+  DEFAULT_TARBALL_LIMITS,
+  readTarball,
+  type TarballLimits,
+} from "./tarball-reader.js";
+
+export interface PackageAnalysis {
+  sourceMetrics: SourceMetrics;
+  capabilities: CapabilityReport;
 }
 
 /**
- * Download and extract a package tarball to count JS lines.
+ * Download and analyze a package tarball to count JS lines.
+ * Throws if the metadata or tarball can't be fetched so callers can report the
+ * package as skipped rather than treating it as empty.
  */
 export async function countJsLinesInPackage(
   packageName: string,
-  version: string
+  version: string,
+  registry: RegistryConfig = DEFAULT_REGISTRY_CONFIG,
+  cache: RegistryCache = createRegistryCache(),
+  metric: JsLinesMetric = "sloc"
 ): Promise<number> {
-  const tempDir = join(tmpdir(), `npm-package-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+  const analysis = await analyzePackage(packageName, version, registry, cache);
+  return metricValue(analysis.sourceMetrics, metric);
+}
 
-  try {
-    // Create temp directory
-    await mkdir(tempDir, { recursive: true });
+/**
+ * Download a package tarball, collect source metrics and scan for sensitive
+ * capabilities. Throws like countJsLinesInPackage, and also when the package
+ * is larger than the limits.
+ */
+export async function analyzePackage(
+  packageName: string,
+  version: string,
+  registry: RegistryConfig = DEFAULT_REGISTRY_CONFIG,
+  cache: RegistryCache = createRegistryCache(),
+  limits: Partial<TarballLimits> = {}
+): Promise<PackageAnalysis> {
+  const maxUnpackedBytes = limits.maxUnpackedBytes ?? DEFAULT_TARBALL_LIMITS.maxUnpackedBytes;
+  const maxFileBytes = limits.maxFileBytes ?? DEFAULT_TARBALL_LIMITS.maxFileBytes;
 
-    // Get package metadata to find tarball URL
-    const metadataUrl = `${NPM_REGISTRY_BASE}/${encodeURIComponent(packageName)}`;
-    const metadataRes = await fetch(metadataUrl);
+  try {
+    // Get package metadata to find tarball URL (usually already cached by the scan)
+    const metadata = await cache.getPackument(registry, packageName);
 
-    if (!metadataRes.ok) {
-      console.error(`Failed to fetch metadata for ${packageName}: ${metadataRes.status}`);
-      return 0;
+    if (!metadata) {
+      throw new Error(`Metadata for ${packageName} not found`);
     }
 
-    const metadata = await metadataRes.json();
     const versionData = metadata.versions?.[version];
 
     if (!versionData || !versionData.dist?.tarball) {
       console.error(`No tarball found for ${packageName}@${version}`);
-      return 0;
-    }
-
-    const tarballUrl = versionData.dist.tarball;
-
-    // Download tarball
-    const tarballRes = await fetch(tarballUrl);
-
-    if (!tarballRes.ok) {
-      console.error(`Failed to download tarball for ${packageName}: ${tarballRes.status}`);
-      return 0;
+      return { sourceMetrics: emptySourceMetrics(), capabilities: {} };
     }
 
-    // Extract tarball
-    const tarballPath = join(tempDir, "package.tgz");
-    const extractDir = join(tempDir, "extracted");
-
-    await mkdir(extractDir, { recursive: true });
-
-    // Write tarball to disk
-    const fileStream = createWriteStream(tarballPath);
-    if (!tarballRes.body) {
-      throw new Error(`No response body for ${packageName}`);
+    // Skip the download entirely when the registry already tells us it's too big
+    const unpackedSize = versionData.dist.unpackedSize;
+    if (typeof unpackedSize === "number" && unpackedSize > maxUnpackedBytes) {
+      throw new Error(`Unpacked size ${unpackedSize} exceeds limit of ${maxUnpackedBytes} bytes`);
     }
-    await pipeline(tarballRes.body, fileStream);
-
-    // Extract using tar
-    await tarExtract({
-      file: tarballPath,
-      cwd: extractDir,
-    });
 
-    // Count JS lines in extracted directory
-    const result = await countJsLinesInDirectory(extractDir);
-    return result.totalLines;
+    // Stream the tarball (or reuse a cached copy with the same integrity hash).
+    // The compressed size can't sensibly exceed the unpacked limit either.
+    const tarball = cache.streamTarball(registry, versionData.dist, maxUnpackedBytes);
+
+    // Measure source and scan for capabilities as entries arrive
+    const sourceMetrics = emptySourceMetrics();
+    const scanner = createCapabilityScanner();
+
+    await readTarball(
+      tarball,
+      (path, content) => {
+        const text = content.toString("utf-8");
+        addSourceFile(sourceMetrics, path, text);
+        scanner.scanFile(path, text);
+      },
+      {
+        limits: { maxUnpackedBytes, maxFileBytes },
+        wantFile: isSourcePath,
+      }
+    );
 
+    return { sourceMetrics, capabilities: scanner.report() };
   } catch (error) {
-    console.error(`Error counting JS lines for ${packageName}@${version}:`, error);
-    return 0;
-  } finally {
-    // Cleanup temp directory
-    try {
-      await rm(tempDir, { recursive: true, force: true });
-    } catch (cleanupError) {
-      // Ignore cleanup errors
-    }
+    throw new Error(
+      `Error analyzing ${packageName}@${version}: ${(error as Error).message}`
+    );
   }
 }
 
 /**
- * Recursively count lines in all .js, .jsx, .ts, .tsx files in a directory.
+ * JS/TS files outside node_modules and hidden directories.
  */
-async function countJsLinesInDirectory(dirPath: string): Promise<JsLinesResult> {
-  let totalLines = 0;
-  let fileCount = 0;
-
-  async function processDirectory(currentPath: string): Promise<void> {
-    const entries = await readdir(currentPath, { withFileTypes: true });
-
-    for (const entry of entries) {
-      const fullPath = join(currentPath, entry.name);
-
-      if (entry.isDirectory()) {
-        // Skip node_modules and hidden directories
-        if (entry.name === "node_modules" || entry.name.startsWith(".")) {
-          continue;
-        }
-        await processDirectory(fullPath);
-      } else if (entry.isFile()) {
-        // Check if it's a JS/TS file
-        if (/\.(js|jsx|ts|tsx|mjs|cjs)$/i.test(entry.name)) {
-          try {
-            const content = await readFile(fullPath, "utf-8");
-            const lines = content.split("\n").length;
-            totalLines += lines;
-            fileCount++;
-          } catch (error) {
-            // Skip files we can't read
-          }
-        }
-      }
-    }
+function isSourcePath(path: string): boolean {
+  const dirs = path.split("/").slice(0, -1);
+  if (dirs.some((dir) => dir === "node_modules" || dir.startsWith("."))) {
+    return false;
   }
-
-  await processDirectory(dirPath);
-
-  return { totalLines, fileCount };
+  return classifySourceFile(path) !== undefined;
 }
@@ -0,0 +1,131 @@
+/**
+ * Rule-based junk/spam scoring.
+ *
+ * Each rule that fires adds its weight to the score and a short reason.
+ * Rules only look at packument metadata, so scoring never downloads a tarball.
+ * A score of 0 means nothing looked suspicious; 5 or more is almost always junk.
+ */
+
+import type { PackageInfo } from "./get-recent-npm.js";
+
+export interface JunkScore {
+  score: number;
+  reasons: string[];
+}
+
+interface JunkRule {
+  weight: number;
+  /** Returns a reason if the rule fires */
+  check: (pkg: PackageInfo) => string | undefined;
+}
+
+const PLACEHOLDER_NAME =
+  /^(test|testing|hello|hello[-_]?world|demo|example|sample|foo|bar|baz|tmp|temp|my[-_]?(first[-_]?)?(package|app|lib|module|project)|package|npm[-_]?test)([-_.]?\d+)*$/;
+
+const PLACEHOLDER_DESCRIPTION =
+  /^(test|testing|hello|hello world|demo|example|sample|description|todo|tbd|none|n\/a|my (first )?(package|app|lib|module|project)|a (test )?package|\.+|-+)$/i;
+
+// Everyday words ("free", "download", "generator", "apk") appear in plenty of
+// real descriptions, so they only count as part of a spam phrase
+const SPAM_TERMS =
+  /\b(keygen|robux|v-?bucks|casino|viagra|mod menu|full movie|watch online|crypto giveaway|free download|download free|online free|free (robux|v-?bucks|coins|gems|followers)|(mod|cracked|premium) apk|apk download)\b/i;
+
+/** Keyword stuffing: more than this many keywords is an SEO signal */
+const MAX_REASONABLE_KEYWORDS = 30;
+
+/** Tarballs smaller than this can't contain much beyond package.json */
+const TRIVIAL_UNPACKED_BYTES = 1024;
+
+const RULES: JunkRule[] = [
+  {
+    weight: 2,
+    check: (pkg) => {
+      const description = pkg.description.trim();
+      if (!description) return "no description";
+      if (PLACEHOLDER_DESCRIPTION.test(description) || description.toLowerCase() === pkg.name) {
+        return "placeholder description";
+      }
+      return undefined;
+    },
+  },
+  {
+    weight: 2,
+    check: (pkg) => (PLACEHOLDER_NAME.test(bareName(pkg.name)) ? "placeholder name" : undefined),
+  },
+  {
+    weight: 2,
+    check: (pkg) => (hasRandomSuffix(bareName(pkg.name)) ? "random-looking name suffix" : undefined),
+  },
+  {
+    weight: 3,
+    check: (pkg) => {
+      const spamKeyword = (pkg.keywords ?? []).find((k) => SPAM_TERMS.test(k));
+      if (spamKeyword) return `spammy keyword "${spamKeyword}"`;
+      const spamDescription = SPAM_TERMS.exec(pkg.description);
+      if (spamDescription) return `spammy description ("${spamDescription[0]}")`;
+      return undefined;
+    },
+  },
+  {
+    weight: 2,
+    check: (pkg) =>
+      (pkg.keywords?.length ?? 0) > MAX_REASONABLE_KEYWORDS
+        ? `${pkg.keywords!.length} keywords`
+        : undefined,
+  },
+  {
+    weight: 2,
+    check: (pkg) =>
+      pkg.unpackedSize !== undefined && pkg.unpackedSize < TRIVIAL_UNPACKED_BYTES
+        ? `trivial tarball (${pkg.unpackedSize} bytes)`
+        : undefined,
+  },
+  {
+    weight: 1,
+    // package.json plus a single file, typically index.js
+    check: (pkg) =>
+      pkg.fileCount !== undefined && pkg.fileCount <= 2 ? "single-file package" : undefined,
+  },
+  {
+    weight: 1,
+    check: (pkg) => (!pkg.repositoryUrl && !pkg.homepage ? "no repository or homepage" : undefined),
+  },
+];
+
+function bareName(pkgName: string): string {
+  return pkgName.replace(/^@[^/]+\//, "").toLowerCase();
+}
+
+/**
+ * Names like "utils-x7f3k2q" or "lib-3f9a1c0d": a trailing segment that
+ * mixes letters and digits or is a long hex string.
+ */
+function hasRandomSuffix(name: string): boolean {
+  const segments = name.split(/[-_.]/);
+  if (segments.length < 2) {
+    return false;
+  }
+  const last = segments[segments.length - 1];
+  if (/^[0-9a-f]{8,}$/.test(last)) {
+    return true;
+  }
+  const digits = last.replace(/[^0-9]/g, "").length;
+  const letters = last.replace(/[^a-z]/g, "").length;
+  // Letters then digits ("es2020", "node18") read as a version, not noise
+  return last.length >= 5 && digits >= 2 && letters >= 2 && !/^[a-z]+\d+$/.test(last);
+}
+
+/**
+ * Score a package. Higher means more likely junk.
+ */
+export function scoreJunk(pkg: PackageInfo): JunkScore {
+  const result: JunkScore = { score: 0, reasons: [] };
+  for (const rule of RULES) {
+    const reason = rule.check(pkg);
+    if (reason) {
+      result.score += rule.weight;
+      result.reasons.push(reason);
+    }
+  }
+  return result;
+}
@@ -1,4 +1,7 @@
 import type { PackageInfo } from "./get-recent-npm.js";
+import { fetchWithRetry } from "./http-client.js";
+import { capabilityNames } from "./capability-scan.js";
+import { dependencyCount } from "./dependency-filter.js";
 
 interface MattermostPayload {
   text?: string;
@@ -7,6 +10,19 @@ interface MattermostPayload {
   channel?: string;
 }
 
+interface MarkdownColumn {
+  header: string;
+  separator: string;
+  value: (pkg: PackageInfo) => string;
+}
+
+/**
+ * Escape text for a markdown table cell.
+ */
+function cell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/[\r\n]+/g, " ");
+}
+
 /**
  * Convert package info to a markdown table
  */
@@ -16,33 +32,114 @@ export function toMarkdownTable(packages: PackageInfo[]): string {
   }
 
   const hasJsLines = packages.some((pkg) => pkg.jsLines !== undefined);
+  const hasInstallScripts = packages.some((pkg) => pkg.installScripts);
+  const hasCapabilities = packages.some((pkg) => capabilityNames(pkg.capabilities).length > 0);
+  const hasJunk = packages.some((pkg) => (pkg.junkScore ?? 0) > 0);
+
+  const columns: MarkdownColumn[] = [
+    {
+      header: "Name",
+      separator: ":-----",
+      value: (pkg) => {
+        let name = `[${pkg.name}](${pkg.npmUrl})`;
+        if (pkg.repositoryUrl) {
+          name += ` ([repo](${pkg.repositoryUrl}))`;
+        }
+        if (pkg.typosquatOf) {
+          name += ` ⚠️ possible typosquat of \`${pkg.typosquatOf}\``;
+        }
+        return name;
+      },
+    },
+    {
+      header: "Description",
+      separator: ":------------",
+      value: (pkg) => cell((pkg.description || "-").substring(0, 80)),
+    },
+    { header: "Author", separator: ":------", value: (pkg) => cell(pkg.author ?? "") },
+    { header: "License", separator: ":-------", value: (pkg) => cell(pkg.license ?? "") },
+    {
+      header: "Published",
+      separator: ":----------",
+      value: (pkg) => pkg.publishedAt.toISOString().split("T")[0],
+    },
+    { header: "Versions", separator: ":---------", value: (pkg) => pkg.numberOfVersions.toString() },
+    { header: "Deps", separator: ":-----", value: (pkg) => dependencyCount(pkg).toString() },
+    { header: "CLI", separator: ":---:", value: (pkg) => (pkg.hasBin ? "✓" : "") },
+    { header: "Format", separator: ":------", value: (pkg) => pkg.moduleFormat ?? "" },
+    { header: "Types", separator: ":-----:", value: (pkg) => (pkg.hasTypes ? "✓" : "") },
+  ];
+
+  if (hasJsLines) {
+    columns.push({
+      header: "JS Lines",
+      separator: ":---------",
+      value: (pkg) => pkg.jsLines?.toLocaleString() || "0",
+    });
+  }
 
-  const header = hasJsLines
-    ? "| Name | Description | Published | Versions | CLI | JS Lines |"
-    : "| Name | Description | Published | Versions | CLI |";
-
-  const separator = hasJsLines
-    ? "|:-----|:------------|:----------|:---------|:---:|:---------|"
-    : "|:-----|:------------|:----------|:---------|:---:|";
+  if (hasInstallScripts) {
+    columns.push({
+      header: "Install Scripts",
+      separator: ":---------------",
+      value: (pkg) =>
+        pkg.installScripts ? `⚠️ ${Object.keys(pkg.installScripts).join(", ")}` : "",
+    });
+  }
 
-  const rows = packages.map((pkg) => {
-    const name = `[${pkg.name}](${pkg.npmUrl})`;
-    const desc = (pkg.description || "-").substring(0, 80);
-    const published = pkg.publishedAt.toISOString().split("T")[0];
-    const versions = pkg.numberOfVersions.toString();
-    const hasCli = pkg.hasBin ? "✓" : "";
+  if (hasCapabilities) {
+    columns.push({
+      header: "Capabilities",
+      separator: ":------------",
+      value: (pkg) => capabilityNames(pkg.capabilities).join(", "),
+    });
+  }
 
-    if (hasJsLines) {
-      const jsLines = pkg.jsLines?.toLocaleString() || "0";
-      return `| ${name} | ${desc} | ${published} | ${versions} | ${hasCli} | ${jsLines} |`;
-    }
+  if (hasJunk) {
+    columns.push({
+      header: "Junk",
+      separator: ":-----",
+      value: (pkg) =>
+        pkg.junkScore ? cell(`${pkg.junkScore}: ${(pkg.junkReasons ?? []).join(", ")}`) : "",
+    });
+  }
 
-    return `| ${name} | ${desc} | ${published} | ${versions} | ${hasCli} |`;
-  });
+  const header = `| ${columns.map((c) => c.header).join(" | ")} |`;
+  const separator = `|${columns.map((c) => c.separator).join("|")}|`;
+  const rows = packages.map(
+    (pkg) => `| ${columns.map((c) => c.value(pkg)).join(" | ")} |`
+  );
 
   return [header, separator, ...rows].join("\n");
 }
 
+/**
+ * "AI Summaries" and (optionally) "README Excerpts" sections for the packages
+ * that have them, to follow the table. Empty if there's nothing to add.
+ */
+export function notesSections(packages: PackageInfo[], includeReadme = false): string {
+  let sections = "";
+
+  // Add AI summaries section if any packages have summaries
+  const packagesWithSummaries = packages.filter(pkg => pkg.aiSummary);
+  if (packagesWithSummaries.length > 0) {
+    sections += "\n\n### AI Summaries\n\n";
+    sections += packagesWithSummaries
+      .map(pkg => `**${pkg.name}**: ${pkg.aiSummary}`)
+      .join("\n");
+  }
+
+  const packagesWithReadme = includeReadme ? packages.filter((pkg) => pkg.readmeExcerpt) : [];
+  if (packagesWithReadme.length > 0) {
+    sections += "\n\n### README Excerpts\n\n";
+    sections += packagesWithReadme
+      .map((pkg) => `**${pkg.name}**: ${pkg.readmeExcerpt}`)
+      .join("\n");
+  }
+
+  return sections;
+}
+
 /**
  * Post a message to a Mattermost webhook
  */
@@ -50,7 +147,7 @@ async function postToMattermost(
   webhookUrl: string,
   payload: MattermostPayload
 ): Promise<void> {
-  const res = await fetch(webhookUrl, {
+  const res = await fetchWithRetry(webhookUrl, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -66,29 +163,24 @@ async function postToMattermost(
   }
 }
 
+export interface MattermostPostOptions {
+  /** Add a section with each package's README excerpt */
+  includeReadme?: boolean;
+}
+
 /**
  * Post package info to Mattermost as a markdown table
  */
 export async function postPackagesToMattermost(
   packages: PackageInfo[],
-  webhookUrl: string
+  webhookUrl: string,
+  options: MattermostPostOptions = {}
 ): Promise<void> {
   const date = new Date().toISOString().split("T")[0];
   const title = `## New NPM Packages (${date})`;
   const table = toMarkdownTable(packages);
 
-  // Add AI summaries section if any packages have summaries
-  const packagesWithSummaries = packages.filter(pkg => pkg.aiSummary);
-  let summariesSection = "";
-
-  if (packagesWithSummaries.length > 0) {
-    summariesSection = "\n\n### AI Summaries\n\n";
-    summariesSection += packagesWithSummaries
-      .map(pkg => `**${pkg.name}**: ${pkg.aiSummary}`)
-      .join("\n");
-  }
-
-  const text = `${title}\n\n${table}${summariesSection}`;
+  const text = `${title}\n\n${table}${notesSections(packages, options.includeReadme)}`;
 
   // Mattermost supports up to 16383 characters per post
   if (text.length <= 16000) {
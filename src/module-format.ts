@@ -0,0 +1,107 @@
+/**
+ * Module format (ESM / CJS / dual) and TypeScript types detection from a
+ * version's package.json fields.
+ *
+ * Format signals:
+ *  - "exports" conditions: import/module => ESM, require => CJS
+ *  - file extensions in exports/main: .mjs => ESM, .cjs => CJS,
+ *    .js => whatever "type" says
+ *  - a "module" field (bundler ESM entry) => ESM
+ *  - otherwise Node's default: CJS unless "type": "module"
+ */
+
+export type ModuleFormat = "esm" | "cjs" | "dual";
+
+export const MODULE_FORMATS: ModuleFormat[] = ["esm", "cjs", "dual"];
+
+interface ExportsInfo {
+  conditions: Set<string>;
+  targets: string[];
+}
+
+/**
+ * Collect condition names and target paths from an "exports" value.
+ * Subpath keys start with "."; everything else is a condition.
+ */
+function walkExports(value: unknown, info: ExportsInfo): void {
+  if (typeof value === "string") {
+    info.targets.push(value);
+  } else if (Array.isArray(value)) {
+    for (const item of value) walkExports(item, info);
+  } else if (value && typeof value === "object") {
+    for (const [key, nested] of Object.entries(value)) {
+      if (!key.startsWith(".")) {
+        info.conditions.add(key);
+      }
+      walkExports(nested, info);
+    }
+  }
+}
+
+/**
+ * package.json fields as a record; anything that isn't an object has none.
+ */
+function packageFields(versionData: unknown): Record<string, unknown> {
+  return versionData && typeof versionData === "object" ? (versionData as Record<string, unknown>) : {};
+}
+
+function formatOfFile(path: string, isModuleType: boolean): "esm" | "cjs" | undefined {
+  if (/\.mjs$/i.test(path)) return "esm";
+  if (/\.cjs$/i.test(path)) return "cjs";
+  if (/\.jsx?$/i.test(path)) return isModuleType ? "esm" : "cjs";
+  return undefined;
+}
+
+/**
+ * Detect the module format a version ships.
+ */
+export function detectModuleFormat(versionData: unknown): ModuleFormat {
+  const pkg = packageFields(versionData);
+  const isModuleType = pkg.type === "module";
+  const found = new Set<"esm" | "cjs">();
+
+  const exportsInfo: ExportsInfo = { conditions: new Set(), targets: [] };
+  walkExports(pkg.exports, exportsInfo);
+
+  if (exportsInfo.conditions.has("import") || exportsInfo.conditions.has("module")) {
+    found.add("esm");
+  }
+  if (exportsInfo.conditions.has("require")) {
+    found.add("cjs");
+  }
+  for (const target of exportsInfo.targets) {
+    const format = formatOfFile(target, isModuleType);
+    if (format) found.add(format);
+  }
+
+  if (typeof pkg.module === "string" && pkg.module) {
+    found.add("esm");
+  }
+
+  // "main" only matters to Node when there's no "exports"
+  if (pkg.exports === undefined || found.size === 0) {
+    const main = typeof pkg.main === "string" && pkg.main ? pkg.main : "index.js";
+    found.add(formatOfFile(main, isModuleType) ?? (isModuleType ? "esm" : "cjs"));
+  }
+
+  if (found.has("esm") && found.has("cjs")) return "dual";
+  return found.has("esm") ? "esm" : "cjs";
+}
+
+/**
+ * Whether package.json declares types ("types"/"typings" or a "types" export
+ * condition). Bundled .d.ts files without these fields are only visible after
+ * the tarball is scanned.
+ */
+export function declaresTypes(versionData: unknown): boolean {
+  const pkg = packageFields(versionData);
+  if (typeof pkg.types === "string" && pkg.types) return true;
+  if (typeof pkg.typings === "string" && pkg.typings) return true;
+
+  const exportsInfo: ExportsInfo = { conditions: new Set(), targets: [] };
+  walkExports(pkg.exports, exportsInfo);
+  return (
+    exportsInfo.conditions.has("types") ||
+    exportsInfo.targets.some((target) => /\.d\.[cm]?ts$/i.test(target))
+  );
+}
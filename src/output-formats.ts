@@ -0,0 +1,214 @@
+/**
+ * Output formats for search results. Each formatter turns the final package
+ * list into a file's contents; --format picks one or more by name.
+ */
+
+import type { PackageInfo } from "./get-recent-npm.js";
+import { generateCsv } from "./csv-file.js";
+import { notesSections, toMarkdownTable } from "./mattermost-post.js";
+import { capabilityNames } from "./capability-scan.js";
+import { dependencyCount } from "./dependency-filter.js";
+
+export interface OutputFormatter {
+  /** File extension, without the dot */
+  extension: string;
+  format: (packages: PackageInfo[]) => string;
+}
+
+export type OutputFormatName = "csv" | "json" | "ndjson" | "markdown" | "html";
+
+function reportDate(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+function toMarkdown(packages: PackageInfo[]): string {
+  const title = `# New npm packages (${reportDate()})`;
+  return `${title}\n\n${toMarkdownTable(packages)}${notesSections(packages, true)}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Only http(s) links are rendered, so a package can't inject javascript: URLs.
+ */
+function safeUrl(url: string | undefined): string | undefined {
+  return url && /^https?:\/\//i.test(url) ? url : undefined;
+}
+
+interface HtmlColumn {
+  header: string;
+  /** Numeric columns sort by value, highest first on the first click */
+  numeric?: boolean;
+  /** Cell HTML */
+  html: (pkg: PackageInfo) => string;
+  /** Sort key, when it differs from the cell text */
+  sortValue?: (pkg: PackageInfo) => string | number;
+}
+
+const HTML_COLUMNS: HtmlColumn[] = [
+  {
+    header: "Name",
+    html: (pkg) => {
+      let name = `<a href="${escapeHtml(pkg.npmUrl)}">${escapeHtml(pkg.name)}</a>`;
+      const repo = safeUrl(pkg.repositoryUrl);
+      if (repo) {
+        name += ` <a class="repo" href="${escapeHtml(repo)}">repo</a>`;
+      }
+      if (pkg.typosquatOf) {
+        name += ` <span class="warn">possible typosquat of ${escapeHtml(pkg.typosquatOf)}</span>`;
+      }
+      return name;
+    },
+    sortValue: (pkg) => pkg.name,
+  },
+  { header: "Version", html: (pkg) => escapeHtml(pkg.version) },
+  { header: "Description", html: (pkg) => escapeHtml(pkg.description) },
+  { header: "AI Summary", html: (pkg) => escapeHtml(pkg.aiSummary ?? "") },
+  { header: "Author", html: (pkg) => escapeHtml(pkg.author ?? "") },
+  { header: "License", html: (pkg) => escapeHtml(pkg.license ?? "") },
+  {
+    header: "Published",
+    html: (pkg) => pkg.publishedAt.toISOString().split("T")[0],
+    sortValue: (pkg) => pkg.publishedAt.toISOString(),
+  },
+  { header: "Versions", numeric: true, html: (pkg) => pkg.numberOfVersions.toString() },
+  { header: "Deps", numeric: true, html: (pkg) => dependencyCount(pkg).toString() },
+  { header: "CLI", html: (pkg) => (pkg.hasBin ? "✓" : "") },
+  { header: "Format", html: (pkg) => pkg.moduleFormat ?? "" },
+  { header: "Types", html: (pkg) => (pkg.hasTypes ? "✓" : "") },
+  {
+    header: "JS Lines",
+    numeric: true,
+    html: (pkg) => pkg.jsLines?.toLocaleString("en-US") ?? "",
+    sortValue: (pkg) => pkg.jsLines ?? -1,
+  },
+  {
+    header: "Unpacked Size",
+    numeric: true,
+    html: (pkg) => (pkg.unpackedSize === undefined ? "" : `${(pkg.unpackedSize / 1024).toFixed(1)} KB`),
+    sortValue: (pkg) => pkg.unpackedSize ?? -1,
+  },
+  {
+    header: "Install Scripts",
+    html: (pkg) =>
+      pkg.installScripts
+        ? `<span class="warn">${escapeHtml(Object.keys(pkg.installScripts).join(", "))}</span>`
+        : "",
+    sortValue: (pkg) => Object.keys(pkg.installScripts ?? {}).join(", "),
+  },
+  { header: "Capabilities", html: (pkg) => escapeHtml(capabilityNames(pkg.capabilities).join(", ")) },
+  {
+    header: "Junk",
+    numeric: true,
+    html: (pkg) =>
+      pkg.junkScore
+        ? `<span title="${escapeHtml((pkg.junkReasons ?? []).join(", "))}">${pkg.junkScore}</span>`
+        : "",
+    sortValue: (pkg) => pkg.junkScore ?? 0,
+  },
+  {
+    header: "Score",
+    numeric: true,
+    html: (pkg) => pkg.score?.toString() ?? "",
+    sortValue: (pkg) => pkg.score ?? 0,
+  },
+];
+
+const HTML_STYLE = `
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+th, td { border: 1px solid #ddd; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+th { background: #f4f4f4; cursor: pointer; user-select: none; white-space: nowrap; position: sticky; top: 0; }
+th.asc::after { content: " ▲"; }
+th.desc::after { content: " ▼"; }
+td.num { text-align: right; }
+tr:nth-child(even) td { background: #fafafa; }
+.warn { color: #b45309; }
+.repo { font-size: 0.8em; }
+`;
+
+// Click a header to sort by it; click again to reverse
+const HTML_SCRIPT = `
+document.querySelectorAll("th").forEach((th, index) => {
+  th.addEventListener("click", () => {
+    const numeric = th.dataset.numeric === "true";
+    const asc = th.classList.contains("desc") || (!th.classList.contains("asc") && !numeric);
+    document.querySelectorAll("th").forEach((other) => other.classList.remove("asc", "desc"));
+    th.classList.add(asc ? "asc" : "desc");
+    const body = document.querySelector("tbody");
+    const rows = Array.from(body.rows);
+    rows.sort((a, b) => {
+      const x = a.cells[index].dataset.sort;
+      const y = b.cells[index].dataset.sort;
+      const order = numeric ? Number(x) - Number(y) : x.localeCompare(y);
+      return asc ? order : -order;
+    });
+    rows.forEach((row) => body.appendChild(row));
+  });
+});
+`;
+
+/**
+ * Self-contained HTML report (inline CSS and JS, no external requests).
+ */
+function toHtml(packages: PackageInfo[]): string {
+  const title = `New npm packages (${reportDate()})`;
+  const headers = HTML_COLUMNS.map(
+    (column) => `<th data-numeric="${column.numeric ? "true" : "false"}">${escapeHtml(column.header)}</th>`
+  ).join("");
+
+  const rows = packages.map((pkg) => {
+    const cells = HTML_COLUMNS.map((column) => {
+      const html = column.html(pkg);
+      const sortValue = column.sortValue ? column.sortValue(pkg) : html;
+      const className = column.numeric ? ` class="num"` : "";
+      return `<td${className} data-sort="${escapeHtml(String(sortValue))}">${html}</td>`;
+    });
+    return `<tr>${cells.join("")}</tr>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>${packages.length} package(s). Click a column header to sort.</p>
+<table>
+<thead><tr>${headers}</tr></thead>
+<tbody>
+${rows.join("\n")}
+</tbody>
+</table>
+<script>${HTML_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+export const OUTPUT_FORMATTERS: Record<OutputFormatName, OutputFormatter> = {
+  csv: { extension: "csv", format: generateCsv },
+  json: { extension: "json", format: (packages) => `${JSON.stringify(packages, null, 2)}\n` },
+  ndjson: {
+    extension: "ndjson",
+    format: (packages) => packages.map((pkg) => `${JSON.stringify(pkg)}\n`).join(""),
+  },
+  markdown: { extension: "md", format: toMarkdown },
+  html: { extension: "html", format: toHtml },
+};
+
+export const OUTPUT_FORMATS = Object.keys(OUTPUT_FORMATTERS) as OutputFormatName[];
+
+export function isOutputFormat(name: string): name is OutputFormatName {
+  return Object.hasOwn(OUTPUT_FORMATTERS, name);
+}
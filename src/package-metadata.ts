@@ -0,0 +1,222 @@
+/**
+ * Normalize loosely-typed package.json / packument fields.
+ * Published metadata takes many historical shapes, so every helper accepts
+ * `unknown` and returns undefined rather than throwing on unexpected input.
+ */
+
+import { joinList, splitList } from "./csv-list.js";
+
+/**
+ * Normalize a person field ("Name <email> (url)" or { name }) to just the name.
+ */
+export function personName(person: unknown): string | undefined {
+  if (typeof person === "string") {
+    const name = person.replace(/<[^>]*>|\([^)]*\)/g, "").trim();
+    return name || undefined;
+  }
+  if (person && typeof person === "object" && typeof (person as { name?: unknown }).name === "string") {
+    return (person as { name: string }).name.trim() || undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Names of all people in a maintainers/contributors list.
+ */
+export function personNames(people: unknown): string[] {
+  if (!Array.isArray(people)) {
+    return [];
+  }
+  return people
+    .map(personName)
+    .filter((name): name is string => name !== undefined);
+}
+
+/**
+ * Keywords as a clean string array.
+ */
+export function normalizeKeywords(keywords: unknown): string[] {
+  if (typeof keywords === "string") {
+    // Some old packages use a comma- or space-separated string
+    return keywords.split(/[,\s]+/).filter((k) => k.length > 0);
+  }
+  if (!Array.isArray(keywords)) {
+    return [];
+  }
+  return keywords
+    .filter((k): k is string => typeof k === "string")
+    .map((k) => k.trim())
+    .filter((k) => k.length > 0);
+}
+
+/**
+ * License as an SPDX-ish string. Handles { type } objects and the legacy
+ * `licenses` array (joined with " OR ").
+ */
+export function normalizeLicense(license: unknown, licenses?: unknown): string | undefined {
+  if (typeof license === "string") {
+    return license.trim() || undefined;
+  }
+  if (license && typeof license === "object" && typeof (license as { type?: unknown }).type === "string") {
+    return (license as { type: string }).type.trim() || undefined;
+  }
+  if (Array.isArray(licenses)) {
+    const types = licenses
+      .map((entry) => normalizeLicense(entry))
+      .filter((type): type is string => type !== undefined);
+    return types.length > 0 ? types.join(" OR ") : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Repository as a browsable https URL.
+ * Accepts "git+https://…/x.git", "git@github.com:user/repo.git",
+ * "github:user/repo", "user/repo" and { url } objects.
+ */
+export function normalizeRepositoryUrl(repository: unknown): string | undefined {
+  let url: string | undefined;
+  if (typeof repository === "string") {
+    url = repository;
+  } else if (repository && typeof repository === "object") {
+    const value = (repository as { url?: unknown }).url;
+    url = typeof value === "string" ? value : undefined;
+  }
+
+  url = url?.trim();
+  if (!url) {
+    return undefined;
+  }
+
+  const shorthand = /^(?:(github|gitlab|bitbucket):)?([\w.-]+\/[\w.-]+)$/.exec(url);
+  if (shorthand) {
+    const host = shorthand[1] === "bitbucket" ? "bitbucket.org" : `${shorthand[1] ?? "github"}.com`;
+    return `https://${host}/${shorthand[2]}`;
+  }
+
+  url = url
+    .replace(/^git\+/, "")
+    .replace(/^git:\/\//, "https://")
+    .replace(/^ssh:\/\/git@/, "https://")
+    .replace(/^git@([^:]+):/, "https://$1/")
+    .replace(/\.git$/, "")
+    .replace(/#.*$/, "");
+
+  return /^https?:\/\//.test(url) ? url : undefined;
+}
+
+/**
+ * Homepage URL, if it looks like one.
+ */
+export function normalizeHomepage(homepage: unknown): string | undefined {
+  if (typeof homepage !== "string") {
+    return undefined;
+  }
+  const trimmed = homepage.trim();
+  return /^https?:\/\//.test(trimmed) ? trimmed : undefined;
+}
+
+/**
+ * Engines as a { name: range } map with string values only.
+ */
+export function normalizeEngines(engines: unknown): Record<string, string> | undefined {
+  return stringMap(engines);
+}
+
+/**
+ * A dependencies/peerDependencies/devDependencies field as a { name: spec } map.
+ */
+export function normalizeDependencies(dependencies: unknown): Record<string, string> | undefined {
+  return stringMap(dependencies);
+}
+
+function stringMap(value: unknown): Record<string, string> | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return undefined;
+  }
+  const result: Record<string, string> = {};
+  for (const [name, range] of Object.entries(value)) {
+    if (typeof range === "string") {
+      result[name] = range;
+    }
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * Format engines as "node >=18; npm >=9" for tables and CSV.
+ */
+export function formatEngines(engines: Record<string, string> | undefined): string {
+  if (!engines) {
+    return "";
+  }
+  return joinList(Object.entries(engines).map(([name, range]) => `${name} ${range}`));
+}
+
+/**
+ * Parse the output of formatEngines back into a map.
+ */
+export function parseEngines(value: string): Record<string, string> | undefined {
+  const result: Record<string, string> = {};
+  for (const entry of splitList(value)) {
+    const match = /^(\S+)\s+([\s\S]+)$/.exec(entry);
+    if (match) {
+      result[match[1]] = match[2];
+    }
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/** Scripts npm runs automatically when a package is installed */
+export const LIFECYCLE_SCRIPTS = ["preinstall", "install", "postinstall", "prepare"];
+
+/**
+ * Lifecycle install scripts from a version's `scripts` field.
+ * npm sets `hasInstallScript` without a script when a binding.gyp triggers an
+ * implicit `node-gyp rebuild`.
+ */
+export function normalizeInstallScripts(
+  scripts: unknown,
+  hasInstallScript?: unknown
+): Record<string, string> | undefined {
+  const result: Record<string, string> = {};
+  if (scripts && typeof scripts === "object" && !Array.isArray(scripts)) {
+    for (const name of LIFECYCLE_SCRIPTS) {
+      const command = (scripts as Record<string, unknown>)[name];
+      if (typeof command === "string" && command.trim()) {
+        result[name] = command.trim();
+      }
+    }
+  }
+  if (hasInstallScript === true && Object.keys(result).length === 0) {
+    result.install = "node-gyp rebuild";
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * Format scripts as "postinstall: node setup.js; prepare: tsc" for CSV.
+ */
+export function formatScripts(scripts: Record<string, string> | undefined): string {
+  if (!scripts) {
+    return "";
+  }
+  return Object.entries(scripts)
+    .map(([name, command]) => `${name}: ${command}`)
+    .join("; ");
+}
+
+/**
+ * Parse the output of formatScripts back into a map. Splits only before known
+ * lifecycle names, so commands containing ";" survive.
+ */
+export function parseScripts(value: string): Record<string, string> | undefined {
+  const result: Record<string, string> = {};
+  const pattern = new RegExp(`(?:^|;\\s*)(${LIFECYCLE_SCRIPTS.join("|")}): `, "g");
+  const starts = [...value.matchAll(pattern)];
+  starts.forEach((match, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].index : value.length;
+    result[match[1]] = value.slice(match.index + match[0].length, end).trim();
+  });
+  return Object.keys(result).length > 0 ? result : undefined;
+}
@@ -0,0 +1,50 @@
+/**
+ * Well-known npm package names used as typosquatting targets.
+ * Not exhaustive; pass --popular-list to use your own list instead.
+ */
+
+export const POPULAR_PACKAGES: string[] = [
+  // Frameworks and UI
+  "react", "react-dom", "react-router", "react-router-dom", "react-redux", "redux",
+  "next", "vue", "vue-router", "vuex", "nuxt", "svelte", "preact", "angular",
+  "@angular/core", "@angular/common", "@angular/cli", "jquery", "bootstrap",
+  "tailwindcss", "styled-components", "@emotion/react", "@mui/material",
+  "antd", "lit", "solid-js", "ember-source", "backbone",
+  // Server and networking
+  "express", "koa", "fastify", "hapi", "@hapi/hapi", "body-parser", "cors",
+  "cookie-parser", "helmet", "morgan", "axios", "node-fetch", "request",
+  "superagent", "got", "ws", "socket.io", "socket.io-client", "http-proxy",
+  "http-proxy-middleware", "undici", "cross-fetch",
+  // Utilities
+  "lodash", "underscore", "ramda", "moment", "dayjs", "date-fns", "luxon",
+  "uuid", "nanoid", "chalk", "colors", "debug", "commander", "yargs", "minimist",
+  "inquirer", "ora", "dotenv", "cross-env", "rimraf", "mkdirp", "glob",
+  "fs-extra", "graceful-fs", "semver", "async", "bluebird", "rxjs", "immer",
+  "immutable", "classnames", "clsx", "qs", "query-string", "validator", "joi",
+  "yup", "zod", "ajv", "js-yaml", "yaml", "xml2js", "cheerio", "jsdom",
+  "marked", "markdown-it", "handlebars", "ejs", "pug", "mustache",
+  "jsonwebtoken", "bcrypt", "bcryptjs", "crypto-js", "node-forge", "ms",
+  "eventemitter3", "through2", "readable-stream", "once",
+  "inherits", "safe-buffer", "buffer", "punycode", "iconv-lite", "mime",
+  "mime-types", "form-data", "busboy", "multer", "sharp", "jimp", "canvas",
+  "puppeteer", "playwright", "chokidar", "nodemon", "pm2",
+  "concurrently", "execa", "shelljs", "cross-spawn", "which", "tar", "archiver",
+  "adm-zip", "node-gyp", "prebuild-install", "bindings", "nan",
+  // Databases
+  "mongoose", "mongodb", "mysql", "mysql2", "pg", "sqlite3", "better-sqlite3",
+  "redis", "ioredis", "sequelize", "typeorm", "prisma", "@prisma/client", "knex",
+  // Tooling
+  "typescript", "ts-node", "tslib", "@types/node", "@types/react", "webpack",
+  "webpack-cli", "webpack-dev-server", "rollup", "vite", "esbuild", "parcel",
+  "babel-core", "@babel/core", "@babel/preset-env", "@babel/runtime",
+  "babel-loader", "css-loader", "style-loader", "sass", "node-sass", "less",
+  "postcss", "autoprefixer", "eslint", "prettier", "jest", "mocha", "chai",
+  "sinon", "jasmine", "karma", "vitest", "@testing-library/react", "cypress",
+  "supertest", "nyc", "husky", "lint-staged", "lerna", "nx", "turbo",
+  "core-js", "regenerator-runtime", "browserslist", "caniuse-lite",
+  "electron", "react-native", "expo",
+  // Cloud SDKs
+  "aws-sdk", "@aws-sdk/client-s3", "firebase", "firebase-admin", "googleapis",
+  "@google-cloud/storage", "stripe", "twilio", "openai", "@anthropic-ai/sdk",
+  "discord.js", "node-telegram-bot-api", "@slack/web-api", "ethers", "web3",
+];
@@ -0,0 +1,161 @@
+/**
+ * Allow/deny lists for npm scopes and publisher/maintainer usernames.
+ *
+ * List files contain one entry per line; blank lines and "#" comments are
+ * ignored. Entries starting with "@" are scopes ("@types", "@types/*"),
+ * anything else is an npm username.
+ */
+
+import { readFile } from "fs/promises";
+import type { PackageInfo } from "./get-recent-npm.js";
+
+export interface PublisherLists {
+  /** Allow-list mode: only keep packages from these scopes (or included maintainers) */
+  includeScopes: string[];
+  /** Allow-list mode: only keep packages maintained by these users (or from included scopes) */
+  includeMaintainers: string[];
+  excludeScopes: string[];
+  excludeMaintainers: string[];
+}
+
+export interface ListEntries {
+  scopes: string[];
+  maintainers: string[];
+}
+
+/**
+ * Normalize "@types", "@types/" and "@types/*" to "@types".
+ */
+export function normalizeScope(entry: string): string {
+  const scope = entry.trim().toLowerCase().replace(/\/\*?$/, "");
+  if (!/^@[^/\s]+$/.test(scope)) {
+    throw new Error(`Invalid scope "${entry}" (expected e.g. @types or @types/*)`);
+  }
+  return scope;
+}
+
+/**
+ * The scope of a package name ("@types/node" -> "@types"), if any.
+ */
+export function scopeOf(pkgName: string): string | undefined {
+  const match = /^(@[^/]+)\//.exec(pkgName);
+  return match ? match[1].toLowerCase() : undefined;
+}
+
+/**
+ * Split raw entries into scopes and usernames.
+ */
+export function splitListEntries(entries: string[]): ListEntries {
+  const result: ListEntries = { scopes: [], maintainers: [] };
+  for (const entry of entries) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+    if (trimmed.startsWith("@")) {
+      result.scopes.push(normalizeScope(trimmed));
+    } else {
+      result.maintainers.push(trimmed.toLowerCase());
+    }
+  }
+  return result;
+}
+
+/**
+ * Load a list file.
+ */
+export async function loadListFile(filePath: string): Promise<ListEntries> {
+  let content: string;
+  try {
+    content = await readFile(filePath, "utf-8");
+  } catch (err) {
+    throw new Error(`Could not read list file ${filePath}: ${(err as Error).message}`);
+  }
+
+  const entries = content
+    .split(/\r?\n/)
+    .map((line) => line.replace(/#.*$/, "").trim())
+    .filter((line) => line.length > 0);
+
+  try {
+    return splitListEntries(entries);
+  } catch (err) {
+    throw new Error(`${filePath}: ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Whether any list is in use.
+ */
+export function hasPublisherLists(lists: PublisherLists | undefined): lists is PublisherLists {
+  return !!lists && Object.values(lists).some((list) => list.length > 0);
+}
+
+/**
+ * Describe the lists for logging.
+ */
+export function describePublisherLists(lists: PublisherLists): string[] {
+  const lines: string[] = [];
+  if (lists.includeScopes.length || lists.includeMaintainers.length) {
+    const allowed = [...lists.includeScopes, ...lists.includeMaintainers];
+    lines.push(`Only including packages from: ${allowed.join(", ")}`);
+  }
+  if (lists.excludeScopes.length) {
+    lines.push(`Excluding scopes: ${lists.excludeScopes.join(", ")}`);
+  }
+  if (lists.excludeMaintainers.length) {
+    lines.push(`Excluding maintainers: ${lists.excludeMaintainers.join(", ")}`);
+  }
+  return lines;
+}
+
+/**
+ * Build name-only and full-package checks for the lists. Deny entries always
+ * win over allow entries.
+ */
+export function createPublisherFilter(lists: PublisherLists): {
+  /** Cheap check before the packument is fetched; false means definitely excluded */
+  nameAllowed: (pkgName: string) => boolean;
+  packageAllowed: (info: PackageInfo) => boolean;
+} {
+  const includeScopes = new Set(lists.includeScopes);
+  const includeMaintainers = new Set(lists.includeMaintainers.map((m) => m.toLowerCase()));
+  const excludeScopes = new Set(lists.excludeScopes);
+  const excludeMaintainers = new Set(lists.excludeMaintainers.map((m) => m.toLowerCase()));
+  const allowListMode = includeScopes.size > 0 || includeMaintainers.size > 0;
+
+  function nameAllowed(pkgName: string): boolean {
+    const scope = scopeOf(pkgName);
+    if (scope && excludeScopes.has(scope)) {
+      return false;
+    }
+    // Without maintainer entries the scope alone decides allow-list membership
+    if (allowListMode && includeMaintainers.size === 0) {
+      return !!scope && includeScopes.has(scope);
+    }
+    return true;
+  }
+
+  function packageAllowed(info: PackageInfo): boolean {
+    if (!nameAllowed(info.name)) {
+      return false;
+    }
+
+    const people = [info.publisher, ...(info.maintainers ?? [])]
+      .filter((name): name is string => !!name)
+      .map((name) => name.toLowerCase());
+
+    if (people.some((name) => excludeMaintainers.has(name))) {
+      return false;
+    }
+
+    if (allowListMode) {
+      const scope = scopeOf(info.name);
+      const scopeIncluded = !!scope && includeScopes.has(scope);
+      const maintainerIncluded = people.some((name) => includeMaintainers.has(name));
+      return scopeIncluded || maintainerIncluded;
+    }
+
+    return true;
+  }
+
+  return { nameAllowed, packageAllowed };
+}
@@ -0,0 +1,97 @@
+/**
+ * README text for the readme: search field and the excerpt shown in outputs.
+ *
+ * The packument's top-level `readme` covers most packages. When it's missing
+ * (or npm's "No README data found" placeholder) the README is read from the
+ * tarball instead, which costs a download, so that only happens for searches
+ * that actually use the readme: field.
+ */
+
+import type { RegistryCache } from "./registry-cache.js";
+import type { RegistryConfig } from "./registry-config.js";
+import { readTarball, type TarballLimits } from "./tarball-reader.js";
+
+const EXCERPT_LENGTH = 280;
+
+const README_FILE = /^readme(\.(md|markdown|txt|rst))?$/i;
+
+/**
+ * The packument's README, or undefined if it has none.
+ */
+export function packumentReadme(packument: unknown): string | undefined {
+  const readme =
+    packument && typeof packument === "object" ? (packument as { readme?: unknown }).readme : undefined;
+  if (typeof readme !== "string" || !readme.trim() || /^ERROR: No README data found!?$/.test(readme.trim())) {
+    return undefined;
+  }
+  return readme;
+}
+
+/**
+ * README text for a package version, from the packument or else the tarball.
+ */
+export async function loadReadme(
+  registry: RegistryConfig,
+  cache: RegistryCache,
+  packageName: string,
+  version: string,
+  limits: Partial<TarballLimits> = {}
+): Promise<string | undefined> {
+  const packument = await cache.getPackument(registry, packageName);
+  const fromPackument = packumentReadme(packument);
+  if (fromPackument) {
+    return fromPackument;
+  }
+
+  const dist = packument?.versions?.[version]?.dist;
+  if (!dist?.tarball) {
+    return undefined;
+  }
+
+  const tarball = cache.streamTarball(registry, dist, limits.maxUnpackedBytes);
+  let readme: string | undefined;
+  await readTarball(
+    tarball,
+    (_path, content) => {
+      readme ??= content.toString("utf-8");
+    },
+    { limits, wantFile: (path) => README_FILE.test(path) }
+  );
+  return readme;
+}
+
+/**
+ * Plain-text opening of a README: markdown syntax, HTML, badges and code
+ * blocks removed, whitespace collapsed, cut at a word boundary.
+ */
+export function readmeExcerpt(readme: string | undefined, maxLength = EXCERPT_LENGTH): string | undefined {
+  if (!readme) {
+    return undefined;
+  }
+
+  const text = readme
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<[^>]+>/g, " ")
+    // Badges and images: [![alt](img)](link) and ![alt](img)
+    .replace(/\[!\[[^\]]*\]\([^)]*\)\]\([^)]*\)/g, " ")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+    // Links keep their text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, "")
+    .replace(/^\s*([-=*_]\s*){3,}$/gm, " ")
+    // Emphasis and inline code markers (underscores are left alone: snake_case)
+    .replace(/\*+|`+|~~/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (!text) {
+    return undefined;
+  }
+  if (text.length <= maxLength) {
+    return text;
+  }
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
@@ -0,0 +1,293 @@
+/**
+ * Caches for registry documents (packuments) and tarballs.
+ *  - packuments are kept in memory for the lifetime of a scan, and optionally
+ *    on disk with a TTL so reruns over overlapping date ranges skip the registry
+ *  - tarballs are streamed as they download, and cached on disk keyed by
+ *    their integrity hash
+ */
+
+import { createHash, type Hash } from "crypto";
+import { mkdir, readFile, rename, rm, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { fetchWithRetry } from "./http-client.js";
+import {
+  packageDocUrl,
+  registryHeaders,
+  registryHeadersFor,
+  resolveTarballUrl,
+  type RegistryConfig,
+} from "./registry-config.js";
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+const DEFAULT_MAX_MEMORY_ENTRIES = 500;
+
+export interface RegistryCacheOptions {
+  /** Directory for the on-disk cache; disk caching is off when unset */
+  cacheDir?: string;
+  /** How long on-disk packuments stay fresh (default: 1 hour) */
+  ttlMs?: number;
+  /** Packuments kept in memory before the least recently used is dropped */
+  maxMemoryEntries?: number;
+}
+
+export interface TarballDist {
+  tarball: string;
+  integrity?: string;
+  shasum?: string;
+}
+
+/**
+ * The packument fields the scan navigates by. Everything else is `unknown`
+ * and narrowed where it's read (see package-metadata.ts).
+ */
+export interface Packument {
+  "dist-tags"?: Record<string, string | undefined>;
+  time?: Record<string, string | undefined>;
+  versions?: Record<string, PackumentVersion | undefined>;
+  [field: string]: unknown;
+}
+
+/**
+ * One entry of a packument's `versions`: the published package.json plus dist.
+ */
+export interface PackumentVersion {
+  dist?: TarballDist & { unpackedSize?: unknown; fileCount?: unknown };
+  [field: string]: unknown;
+}
+
+export interface RegistryCache {
+  /** Fetch a packument, or null if the package doesn't exist (404); throws on other errors */
+  getPackument(registry: RegistryConfig, pkgName: string): Promise<Packument | null>;
+  /**
+   * Stream a tarball's (gzipped) bytes as they download, for readTarball.
+   * The integrity hash is checked once the last chunk has arrived, and the
+   * stream throws if it doesn't match. With maxBytes, downloads larger than
+   * that are aborted.
+   */
+  streamTarball(registry: RegistryConfig, dist: TarballDist, maxBytes?: number): AsyncIterable<Buffer>;
+}
+
+interface DiskPackument {
+  fetchedAt: number;
+  data: Packument;
+}
+
+/**
+ * Create a cache. Use one per scan so packuments fetched during filtering are
+ * reused when the same package is inspected again (e.g. to count JS lines).
+ */
+export function createRegistryCache(options: RegistryCacheOptions = {}): RegistryCache {
+  const {
+    cacheDir,
+    ttlMs = DEFAULT_TTL_MS,
+    maxMemoryEntries = DEFAULT_MAX_MEMORY_ENTRIES,
+  } = options;
+
+  // Promises rather than values so concurrent lookups share one request
+  const packuments = new Map<string, Promise<Packument | null>>();
+
+  function remember(key: string, value: Promise<Packument | null>): void {
+    packuments.set(key, value);
+    if (packuments.size > maxMemoryEntries) {
+      const oldest = packuments.keys().next().value;
+      if (oldest !== undefined) {
+        packuments.delete(oldest);
+      }
+    }
+  }
+
+  async function loadPackument(registry: RegistryConfig, pkgName: string): Promise<Packument | null> {
+    const url = packageDocUrl(registry, pkgName);
+    const diskPath = cacheDir
+      ? join(cacheDir, "packuments", `${hashKey(url)}.json`)
+      : undefined;
+
+    if (diskPath) {
+      const cached = await readJson<DiskPackument>(diskPath);
+      if (cached && Date.now() - cached.fetchedAt < ttlMs) {
+        return cached.data;
+      }
+    }
+
+    const res = await fetchWithRetry(url, { headers: registryHeaders(registry) });
+    if (res.status === 404) {
+      // Unpublished or deleted since it appeared in the changes feed
+      return null;
+    }
+    if (!res.ok) {
+      throw new Error(`Failed to fetch ${pkgName}: ${res.status} ${res.statusText}`);
+    }
+
+    const data = (await res.json()) as Packument;
+
+    if (diskPath) {
+      await writeAtomic(diskPath, JSON.stringify({ fetchedAt: Date.now(), data }));
+    }
+
+    return data;
+  }
+
+  return {
+    getPackument(registry, pkgName) {
+      const key = packageDocUrl(registry, pkgName);
+      const existing = packuments.get(key);
+      if (existing) {
+        // Refresh recency for LRU eviction
+        packuments.delete(key);
+        packuments.set(key, existing);
+        return existing;
+      }
+
+      const pending = loadPackument(registry, pkgName).then(
+        (data) => {
+          // Don't keep failures around; a later lookup may succeed
+          if (data === null) packuments.delete(key);
+          return data;
+        },
+        (err) => {
+          packuments.delete(key);
+          throw err;
+        }
+      );
+      remember(key, pending);
+      return pending;
+    },
+
+    async *streamTarball(registry, dist, maxBytes) {
+      const integrity = dist.integrity ?? (dist.shasum ? `sha1-${hexToBase64(dist.shasum)}` : undefined);
+      const diskPath =
+        cacheDir && integrity
+          ? join(cacheDir, "tarballs", `${hashKey(integrity)}.tgz`)
+          : undefined;
+
+      if (diskPath) {
+        const cached = await readFile(diskPath).catch(() => undefined);
+        if (cached) {
+          if (maxBytes !== undefined && cached.length > maxBytes) {
+            throw new Error(`Tarball is ${cached.length} bytes, over the limit of ${maxBytes}`);
+          }
+          yield cached;
+          return;
+        }
+      }
+
+      const tarballUrl = resolveTarballUrl(registry, dist.tarball);
+      const res = await fetchWithRetry(tarballUrl, {
+        headers: registryHeadersFor(registry, tarballUrl),
+      });
+
+      if (!res.ok) {
+        throw new Error(`Failed to download tarball ${tarballUrl}: ${res.status}`);
+      }
+
+      const check = integrity ? createIntegrityCheck(integrity) : undefined;
+      // Kept only to write the cache entry once the download is complete
+      const chunks: Buffer[] = [];
+
+      for await (const chunk of readBody(res, maxBytes)) {
+        check?.update(chunk);
+        if (diskPath) {
+          chunks.push(chunk);
+        }
+        yield chunk;
+      }
+
+      if (check && !check.matches()) {
+        throw new Error(`Integrity check failed for ${tarballUrl}`);
+      }
+
+      if (diskPath) {
+        await writeAtomic(diskPath, Buffer.concat(chunks));
+      }
+    },
+  };
+}
+
+/**
+ * Yield a response body as it arrives, cancelling the download once it
+ * exceeds maxBytes (or as soon as the consumer stops reading).
+ */
+async function* readBody(res: Response, maxBytes?: number): AsyncGenerator<Buffer> {
+  const declared = Number(res.headers.get("content-length"));
+  if (maxBytes !== undefined && declared > maxBytes) {
+    await res.body?.cancel();
+    throw new Error(`Tarball is ${declared} bytes, over the limit of ${maxBytes}`);
+  }
+  if (!res.body) {
+    yield Buffer.from(await res.arrayBuffer());
+    return;
+  }
+
+  let size = 0;
+  // Leaving the loop cancels the rest of the download
+  for await (const chunk of res.body) {
+    size += chunk.length;
+    if (maxBytes !== undefined && size > maxBytes) {
+      throw new Error(`Tarball is over the limit of ${maxBytes} bytes`);
+    }
+    yield Buffer.from(chunk);
+  }
+}
+
+/**
+ * Incremental check against an SRI string ("sha512-<base64>", possibly
+ * several space-separated). Unknown algorithms are ignored rather than failing.
+ */
+function createIntegrityCheck(integrity: string): { update(chunk: Buffer): void; matches(): boolean } {
+  const expected: Array<{ hash: Hash; digest: string }> = [];
+
+  for (const entry of integrity.trim().split(/\s+/)) {
+    const dash = entry.indexOf("-");
+    if (dash === -1) continue;
+
+    try {
+      expected.push({ hash: createHash(entry.slice(0, dash)), digest: entry.slice(dash + 1) });
+    } catch {
+      continue;
+    }
+  }
+
+  return {
+    update(chunk) {
+      for (const { hash } of expected) {
+        hash.update(chunk);
+      }
+    },
+    matches() {
+      return (
+        expected.length === 0 || expected.some(({ hash, digest }) => hash.digest("base64") === digest)
+      );
+    },
+  };
+}
+
+function hexToBase64(hex: string): string {
+  return Buffer.from(hex, "hex").toString("base64");
+}
+
+function hashKey(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+async function readJson<T>(path: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await readFile(path, "utf-8")) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Write via a temp file + rename so concurrent runs never see partial files.
+ */
+async function writeAtomic(path: string, data: string | Buffer): Promise<void> {
+  const tempPath = `${path}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+  try {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(tempPath, data);
+    await rename(tempPath, path);
+  } catch (err) {
+    console.error(`Failed to write cache entry ${path}:`, (err as Error).message);
+    await rm(tempPath, { force: true }).catch(() => {});
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Registry endpoint configuration.
+ * Lets the same pipeline run against the public npm registry, a private
+ * mirror (e.g. Verdaccio) or a local stand-in registry.
+ */
+
+export interface RegistryConfig {
+  /** CouchDB-style _changes feed URL */
+  changesUrl: string;
+  /** Base URL for packument documents and tarballs */
+  registryUrl: string;
+  /** Base URL for human-facing package pages (used for npmUrl links) */
+  packageUrlBase: string;
+  /** Optional bearer token for private registries */
+  token?: string;
+}
+
+export const DEFAULT_REGISTRY_CONFIG: RegistryConfig = {
+  changesUrl: "https://replicate.npmjs.com/registry/_changes",
+  registryUrl: "https://registry.npmjs.org",
+  packageUrlBase: "https://www.npmjs.com/package",
+};
+
+/**
+ * Build a registry config from explicit overrides (e.g. CLI flags), falling
+ * back to environment variables and then the public npm defaults.
+ */
+export function resolveRegistryConfig(
+  overrides: Partial<RegistryConfig> = {},
+  env: NodeJS.ProcessEnv = process.env
+): RegistryConfig {
+  const registryUrl = stripTrailingSlash(
+    overrides.registryUrl ?? env.NPM_REGISTRY_URL ?? DEFAULT_REGISTRY_CONFIG.registryUrl
+  );
+
+  // A custom registry without an explicit changes URL most likely serves
+  // its feed at <registry>/_changes (Verdaccio, CouchDB, local fakes).
+  const defaultChangesUrl =
+    registryUrl === DEFAULT_REGISTRY_CONFIG.registryUrl
+      ? DEFAULT_REGISTRY_CONFIG.changesUrl
+      : `${registryUrl}/_changes`;
+
+  const changesUrl =
+    overrides.changesUrl ?? env.NPM_REGISTRY_CHANGES_URL ?? defaultChangesUrl;
+
+  const packageUrlBase = stripTrailingSlash(
+    overrides.packageUrlBase ??
+      env.NPM_PACKAGE_URL_BASE ??
+      DEFAULT_REGISTRY_CONFIG.packageUrlBase
+  );
+
+  const token = overrides.token ?? env.NPM_REGISTRY_TOKEN;
+
+  for (const [label, value] of [
+    ["changes URL", changesUrl],
+    ["registry URL", registryUrl],
+    ["package URL base", packageUrlBase],
+  ]) {
+    try {
+      new URL(value);
+    } catch {
+      throw new Error(`Invalid ${label}: "${value}"`);
+    }
+  }
+
+  return {
+    changesUrl,
+    registryUrl,
+    packageUrlBase,
+    token: token || undefined,
+  };
+}
+
+/**
+ * Request headers for registry calls (adds the bearer token if configured).
+ */
+export function registryHeaders(config: RegistryConfig): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (config.token) {
+    headers.Authorization = `Bearer ${config.token}`;
+  }
+  return headers;
+}
+
+/**
+ * Headers for an arbitrary URL: the token is only sent to the configured
+ * registry's origin so it never leaks to third-party tarball hosts.
+ */
+export function registryHeadersFor(
+  config: RegistryConfig,
+  url: string
+): Record<string, string> {
+  if (new URL(url).origin !== new URL(config.registryUrl).origin) {
+    return {};
+  }
+  return registryHeaders(config);
+}
+
+/**
+ * URL of the packument document for a package.
+ */
+export function packageDocUrl(config: RegistryConfig, pkgName: string): string {
+  return `${config.registryUrl}/${encodeURIComponent(pkgName)}`;
+}
+
+/**
+ * URL of the human-facing package page.
+ */
+export function packageWebUrl(config: RegistryConfig, pkgName: string): string {
+  return `${config.packageUrlBase}/${encodeURIComponent(pkgName)}`;
+}
+
+/**
+ * Point tarball URLs at the configured registry.
+ * Mirrors often serve packuments copied verbatim from the public registry,
+ * so dist.tarball still references registry.npmjs.org.
+ */
+export function resolveTarballUrl(config: RegistryConfig, tarballUrl: string): string {
+  const publicBase = DEFAULT_REGISTRY_CONFIG.registryUrl;
+  if (config.registryUrl !== publicBase && tarballUrl.startsWith(`${publicBase}/`)) {
+    return config.registryUrl + tarballUrl.slice(publicBase.length);
+  }
+  return tarballUrl;
+}
+
+function stripTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
@@ -0,0 +1,101 @@
+/**
+ * Relevance scoring and result sorting.
+ *
+ * The score is a weighted sum of:
+ *  - search term hits (name hits count more than description/keyword hits)
+ *  - amount of code (log-scaled JS lines)
+ *  - release activity (log-scaled version count)
+ *  - shipping a CLI
+ *  - recency within the search window
+ */
+
+import { createTermMatcher, type MatchMode } from "./description-filter.js";
+import type { PackageInfo } from "./get-recent-npm.js";
+import { positiveTerms, type QueryNode } from "./search-query.js";
+
+export type SortKey = "score" | "published" | "versions" | "jsLines" | "name";
+
+export const SORT_KEYS: SortKey[] = ["score", "published", "versions", "jsLines", "name"];
+
+const WEIGHTS = {
+  nameHit: 3,
+  descriptionHit: 1,
+  keywordHit: 1,
+  jsLines: 1,
+  versions: 1,
+  hasBin: 1,
+  recency: 2,
+};
+
+export interface ScoreContext {
+  /** Parsed search query; terms under NOT don't contribute */
+  query?: QueryNode | null;
+  mode?: MatchMode;
+  /** Search window, used to scale recency */
+  daysBack: number;
+  now: number;
+}
+
+/**
+ * Build a scoring function for a search. Term matchers are compiled once.
+ */
+export function createScorer(context: ScoreContext): (pkg: PackageInfo) => number {
+  const { query, mode, daysBack, now } = context;
+  const windowMs = Math.max(daysBack, 1) * 24 * 60 * 60 * 1000;
+
+  const terms = (query ? positiveTerms(query) : []).map((term) => ({
+    field: term.field,
+    matches: createTermMatcher(term.value, { mode, caseInsensitive: true }),
+  }));
+
+  return (pkg) => {
+    let score = 0;
+
+    for (const term of terms) {
+      if ((term.field === "any" || term.field === "name") && term.matches(pkg.name)) {
+        score += WEIGHTS.nameHit;
+      }
+      if ((term.field === "any" || term.field === "description") && term.matches(pkg.description)) {
+        score += WEIGHTS.descriptionHit;
+      }
+      if (term.field === "keywords" && (pkg.keywords ?? []).some(term.matches)) {
+        score += WEIGHTS.keywordHit;
+      }
+    }
+
+    // 10 lines ~ 1 point, 1,000 ~ 3, 100,000 ~ 5
+    if (pkg.jsLines) {
+      score += WEIGHTS.jsLines * Math.log10(pkg.jsLines + 1);
+    }
+
+    // Several quick releases suggest active development
+    score += WEIGHTS.versions * Math.log2(Math.max(pkg.numberOfVersions, 1));
+
+    if (pkg.hasBin) {
+      score += WEIGHTS.hasBin;
+    }
+
+    const ageMs = Math.max(0, now - pkg.publishedAt.getTime());
+    score += WEIGHTS.recency * Math.max(0, 1 - ageMs / windowMs);
+
+    return Math.round(score * 100) / 100;
+  };
+}
+
+/**
+ * Sort packages in place. Numeric keys and dates sort highest/newest first,
+ * names alphabetically; ties fall back to name for stable output.
+ */
+export function sortPackages(packages: PackageInfo[], key: SortKey): PackageInfo[] {
+  const byName = (a: PackageInfo, b: PackageInfo) => a.name.localeCompare(b.name);
+
+  const compare: Record<SortKey, (a: PackageInfo, b: PackageInfo) => number> = {
+    score: (a, b) => (b.score ?? 0) - (a.score ?? 0),
+    published: (a, b) => b.publishedAt.getTime() - a.publishedAt.getTime(),
+    versions: (a, b) => b.numberOfVersions - a.numberOfVersions,
+    jsLines: (a, b) => (b.jsLines ?? -1) - (a.jsLines ?? -1),
+    name: byName,
+  };
+
+  return packages.sort((a, b) => compare[key](a, b) || byName(a, b));
+}
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  compileQuery,
+  parseSearchQuery,
+  type QueryMatchOptions,
+  type SearchablePackage,
+} from "./search-query.js";
+
+const packages: SearchablePackage[] = [
+  { name: "react-dom", description: "React package for working with the DOM", keywords: ["react", "dom"], author: "Meta" },
+  { name: "preact", description: "Fast 3kB React substitute", keywords: ["preact", "vdom"] },
+  { name: "react-native-svg", description: "SVG library for React Native", keywords: ["svg"] },
+  { name: "left-pad", description: "String left pad", readme: "# left-pad\nSee http://example.com/docs" },
+  { name: "foo:bar", description: "Colon in the name" },
+];
+
+/** Names of the packages a query matches */
+function search(query: string, options?: QueryMatchOptions): string[] {
+  const matches = compileQuery(parseSearchQuery(query), options);
+  return packages.filter(matches).map((pkg) => pkg.name);
+}
+
+describe("compileQuery", () => {
+  it("matches everything for an empty query", () => {
+    assert.equal(parseSearchQuery("   "), null);
+    assert.equal(search("").length, packages.length);
+  });
+
+  it("matches unqualified terms against name or description, ignoring case", () => {
+    assert.deepEqual(search("DOM"), ["react-dom"]);
+    assert.deepEqual(search("svg"), ["react-native-svg"]);
+  });
+
+  it("ANDs terms and binds OR tighter than AND", () => {
+    assert.deepEqual(search("react native"), ["react-native-svg"]);
+    assert.deepEqual(search("react OR preact -native"), ["react-dom", "preact"]);
+    assert.deepEqual(search("(dom OR svg) AND NOT native"), ["react-dom"]);
+  });
+
+  it("restricts qualified terms to their field", () => {
+    assert.deepEqual(search("name:preact"), ["preact"]);
+    assert.deepEqual(search("keyword:vdom"), ["preact"]);
+    assert.deepEqual(search("author:meta"), ["react-dom"]);
+    assert.deepEqual(search("readme:example"), ["left-pad"]);
+    assert.deepEqual(search("desc:left"), ["left-pad"]);
+  });
+
+  it("treats a prefix that isn't a field as part of the term", () => {
+    assert.deepEqual(search("foo:bar"), ["foo:bar"]);
+    assert.deepEqual(search("constructor:x"), []);
+    assert.deepEqual(search("readme:http://example.com"), ["left-pad"]);
+  });
+
+  it("matches quoted phrases as one term", () => {
+    assert.deepEqual(search('"React Native"'), ["react-native-svg"]);
+    assert.deepEqual(search('-"react native" svg'), []);
+  });
+
+  it("compares terms by match mode", () => {
+    assert.deepEqual(search("pad", { mode: "word" }), ["left-pad"]);
+    assert.deepEqual(search("rea", { mode: "word" }), []);
+    assert.deepEqual(search("rea", { partialMatch: false }), []);
+    assert.deepEqual(search("name:react-*", { mode: "glob" }), ["react-dom", "react-native-svg"]);
+    assert.deepEqual(search("name:/^p(re)?act$/", { mode: "regex" }), ["preact"]);
+    assert.deepEqual(search("/3kb (react|vue)/i", { mode: "regex" }), ["preact"]);
+  });
+
+  it("rejects invalid terms when compiling", () => {
+    assert.throws(() => compileQuery(parseSearchQuery("/(unclosed/"), { mode: "regex" }));
+  });
+
+  it("reports syntax errors with a position", () => {
+    assert.throws(() => parseSearchQuery('react "native'), /Unterminated quoted phrase at position 7/);
+    assert.throws(() => parseSearchQuery("(react"), /position/);
+    assert.throws(() => parseSearchQuery("react OR"), /Expected a search term/);
+    assert.throws(() => parseSearchQuery("name:"), /Missing value after "name:" at position 1/);
+  });
+});
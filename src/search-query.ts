@@ -0,0 +1,347 @@
+/**
+ * Boolean search query language for --search.
+ *
+ * Grammar (operators are case-sensitive, AND is implicit between terms):
+ *   query   := and
+ *   and     := or (["AND"] or)*
+ *   or      := unary ("OR" unary)*
+ *   unary   := ("-" | "NOT") unary | primary
+ *   primary := "(" and ")" | [field ":"] (word | "quoted phrase")
+ *
+ * OR binds tighter than AND, as in web search engines, so
+ * "react OR preact -native" means (react OR preact) AND NOT native.
+ *
+ * Fields: name, desc/description, keyword/keywords, author, readme.
+ * Unqualified terms match the package name OR description; a prefix that
+ * isn't a field name (http://example.com, foo:bar) is part of the term.
+ * Terms are compared according to the match mode (partial, word, regex, glob);
+ * /pattern/flags is always read as one term so regexes may contain spaces
+ * and parentheses.
+ */
+
+import { createTermMatcher, type MatchMode } from "./description-filter.js";
+
+export type SearchField = "any" | "name" | "description" | "keywords" | "author" | "readme";
+
+export type QueryNode =
+  | { type: "term"; field: SearchField; value: string; phrase: boolean }
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode };
+
+/**
+ * The package fields a query can look at.
+ */
+export interface SearchablePackage {
+  name: string;
+  description: string;
+  keywords?: string[];
+  author?: string;
+  /** Full README text; only needed when the query uses readme: */
+  readme?: string;
+}
+
+export interface QueryMatchOptions {
+  /** Whether to match partial words (default: true); ignored when `mode` is set */
+  partialMatch?: boolean;
+  /** How terms are compared (default: partial, or word if partialMatch is false) */
+  mode?: MatchMode;
+}
+
+const FIELD_ALIASES: Record<string, SearchField> = {
+  name: "name",
+  desc: "description",
+  description: "description",
+  keyword: "keywords",
+  keywords: "keywords",
+  author: "author",
+  readme: "readme",
+};
+
+type Token =
+  | { kind: "word"; value: string; field?: SearchField; phrase: boolean; pos: number }
+  | { kind: "lparen" | "rparen" | "or" | "and" | "not"; pos: number };
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === "(" || char === ")") {
+      tokens.push({ kind: char === "(" ? "lparen" : "rparen", pos: i });
+      i++;
+      continue;
+    }
+
+    // Leading "-" negates the following term or group
+    if (char === "-" && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ kind: "not", pos: i });
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let field: SearchField | undefined;
+
+    // Optional field qualifier; any other "word:" (http://…, foo:bar) is part of the term
+    const qualifier = /^([a-z]+):/i.exec(input.slice(i));
+    if (qualifier && Object.hasOwn(FIELD_ALIASES, qualifier[1].toLowerCase())) {
+      field = FIELD_ALIASES[qualifier[1].toLowerCase()];
+      i += qualifier[0].length;
+    }
+
+    // Regex literal: read up to the closing unescaped slash plus flags
+    if (input[i] === "/") {
+      const literal = /^\/(?:\\.|[^\\/])+\/[a-z]*/.exec(input.slice(i));
+      if (literal) {
+        tokens.push({ kind: "word", value: literal[0], field, phrase: false, pos: start });
+        i += literal[0].length;
+        continue;
+      }
+    }
+
+    if (input[i] === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end === -1) {
+        throw new Error(`Unterminated quoted phrase at position ${i + 1}`);
+      }
+      const value = input.slice(i + 1, end).trim();
+      if (!value) {
+        throw new Error(`Empty quoted phrase at position ${i + 1}`);
+      }
+      tokens.push({ kind: "word", value, field, phrase: true, pos: start });
+      i = end + 1;
+      continue;
+    }
+
+    let end = i;
+    while (end < input.length && !/[\s()"]/.test(input[end])) {
+      end++;
+    }
+    const value = input.slice(i, end);
+
+    if (!value) {
+      throw new Error(`Missing value after "${input.slice(start, i)}" at position ${start + 1}`);
+    }
+
+    if (field === undefined && (value === "OR" || value === "AND" || value === "NOT")) {
+      tokens.push({ kind: value === "OR" ? "or" : value === "AND" ? "and" : "not", pos: start });
+    } else {
+      tokens.push({ kind: "word", value, field, phrase: false, pos: start });
+    }
+    i = end;
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a search string into a query AST.
+ * Returns null for an empty query; throws with a position on syntax errors.
+ */
+export function parseSearchQuery(input: string): QueryNode | null {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  let index = 0;
+
+  function describe(token: Token | undefined): string {
+    if (!token) return "end of query";
+    return token.kind === "word" ? `"${token.value}"` : token.kind.toUpperCase();
+  }
+
+  function parseAnd(): QueryNode {
+    const children = [parseOr()];
+    for (;;) {
+      const next = tokens[index];
+      if (!next || next.kind === "rparen") break;
+      if (next.kind === "and") index++;
+      children.push(parseOr());
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  }
+
+  function parseOr(): QueryNode {
+    const children = [parseUnary()];
+    while (tokens[index]?.kind === "or") {
+      index++;
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  }
+
+  function parseUnary(): QueryNode {
+    if (tokens[index]?.kind === "not") {
+      index++;
+      return { type: "not", child: parseUnary() };
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): QueryNode {
+    const token = tokens[index];
+
+    if (token?.kind === "lparen") {
+      index++;
+      const node = parseAnd();
+      if (tokens[index]?.kind !== "rparen") {
+        throw new Error(`Missing closing parenthesis for "(" at position ${token.pos + 1}`);
+      }
+      index++;
+      return node;
+    }
+
+    if (token?.kind === "word") {
+      index++;
+      return {
+        type: "term",
+        field: token.field ?? "any",
+        value: token.value,
+        phrase: token.phrase,
+      };
+    }
+
+    const where = token ? ` at position ${token.pos + 1}` : "";
+    throw new Error(`Expected a search term but found ${describe(token)}${where}`);
+  }
+
+  const root = parseAnd();
+
+  if (index < tokens.length) {
+    const token = tokens[index];
+    throw new Error(`Unexpected ${describe(token)} at position ${token.pos + 1}`);
+  }
+
+  return root;
+}
+
+function fieldValues(pkg: SearchablePackage, field: SearchField): string[] {
+  switch (field) {
+    case "name":
+      return [pkg.name];
+    case "description":
+      return [pkg.description];
+    case "keywords":
+      return pkg.keywords ?? [];
+    case "author":
+      return pkg.author ? [pkg.author] : [];
+    case "readme":
+      return pkg.readme ? [pkg.readme] : [];
+    case "any":
+      return [pkg.name, pkg.description];
+  }
+}
+
+/**
+ * Compile a query into a predicate, building every term matcher up front.
+ * Throws if any term is invalid for the match mode (e.g. a bad regex).
+ */
+export function compileQuery(
+  node: QueryNode | null,
+  options: QueryMatchOptions = {}
+): (pkg: SearchablePackage) => boolean {
+  if (!node) {
+    return () => true;
+  }
+
+  switch (node.type) {
+    case "and": {
+      const children = node.children.map((child) => compileQuery(child, options));
+      return (pkg) => children.every((matches) => matches(pkg));
+    }
+    case "or": {
+      const children = node.children.map((child) => compileQuery(child, options));
+      return (pkg) => children.some((matches) => matches(pkg));
+    }
+    case "not": {
+      const child = compileQuery(node.child, options);
+      return (pkg) => !child(pkg);
+    }
+    case "term": {
+      const matchesText = createTermMatcher(node.value, {
+        partialMatch: options.partialMatch ?? true,
+        mode: options.mode,
+        caseInsensitive: true,
+      });
+      return (pkg) => fieldValues(pkg, node.field).some(matchesText);
+    }
+  }
+}
+
+/**
+ * Evaluate a query against a package.
+ */
+export function matchesQuery(
+  node: QueryNode | null,
+  pkg: SearchablePackage,
+  options: QueryMatchOptions = {}
+): boolean {
+  return compileQuery(node, options)(pkg);
+}
+
+/**
+ * Collect the terms a package should contain to match, i.e. every term that
+ * isn't under a NOT. Used for relevance scoring.
+ */
+export function positiveTerms(
+  node: QueryNode
+): Array<Extract<QueryNode, { type: "term" }>> {
+  switch (node.type) {
+    case "and":
+    case "or":
+      return node.children.flatMap(positiveTerms);
+    case "not":
+      return [];
+    case "term":
+      return [node];
+  }
+}
+
+/**
+ * Whether any term in the query (including negated ones) targets a field.
+ */
+export function usesField(node: QueryNode | null, field: SearchField): boolean {
+  if (!node) {
+    return false;
+  }
+  switch (node.type) {
+    case "and":
+    case "or":
+      return node.children.some((child) => usesField(child, field));
+    case "not":
+      return usesField(node.child, field);
+    case "term":
+      return node.field === field;
+  }
+}
+
+/**
+ * Render a query back to a readable, fully parenthesized string for logging.
+ */
+export function formatQuery(node: QueryNode): string {
+  switch (node.type) {
+    case "and":
+      return node.children.map((child) => wrap(child)).join(" AND ");
+    case "or":
+      return node.children.map((child) => wrap(child)).join(" OR ");
+    case "not":
+      return `NOT ${wrap(node.child)}`;
+    case "term": {
+      const value = node.phrase ? `"${node.value}"` : node.value;
+      return node.field === "any" ? value : `${node.field}:${value}`;
+    }
+  }
+}
+
+function wrap(node: QueryNode): string {
+  return node.type === "and" || node.type === "or" ? `(${formatQuery(node)})` : formatQuery(node);
+}
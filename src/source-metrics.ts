@@ -0,0 +1,202 @@
+/**
+ * Source metrics for package code: per-language line and SLOC counts with
+ * minified bundles kept separate so they don't inflate the numbers.
+ *
+ * SLOC = lines containing something other than whitespace and comments.
+ * Comment stripping is a lightweight scanner that understands strings and
+ * template literals but not regex literals, which is close enough for counting.
+ */
+
+export type SourceLanguage = "js" | "ts" | "dts";
+
+export interface LanguageMetrics {
+  files: number;
+  /** Physical lines */
+  lines: number;
+  sloc: number;
+}
+
+export interface SourceMetrics {
+  js: LanguageMetrics;
+  ts: LanguageMetrics;
+  /** TypeScript declaration files (.d.ts, .d.mts, .d.cts) */
+  dts: LanguageMetrics;
+  /** Minified JS files, excluded from the js counts */
+  minified: LanguageMetrics;
+}
+
+/** Which number --min-js-lines compares against */
+export type JsLinesMetric = "sloc" | "lines" | "js-sloc" | "ts-sloc" | "raw";
+
+export const JS_LINES_METRICS: JsLinesMetric[] = ["sloc", "lines", "js-sloc", "ts-sloc", "raw"];
+
+const MINIFIED_NAME = /[.-]min\.[cm]?js$/i;
+
+/** Files shorter than this are never treated as minified */
+const MINIFIED_MIN_LENGTH = 1000;
+
+/** Hand-written code rarely averages this many characters per line */
+const MINIFIED_AVG_LINE_LENGTH = 200;
+
+/**
+ * Language of a source file by extension, or undefined for non-source files.
+ */
+export function classifySourceFile(path: string): SourceLanguage | undefined {
+  if (/\.d\.[cm]?ts$/i.test(path)) return "dts";
+  if (/\.([cm]?ts|tsx)$/i.test(path)) return "ts";
+  if (/\.([cm]?js|jsx)$/i.test(path)) return "js";
+  return undefined;
+}
+
+/**
+ * Whether a JS file looks minified: a ".min.js" name, or very long average lines.
+ */
+export function isMinified(path: string, content: string, lineCount: number): boolean {
+  if (MINIFIED_NAME.test(path)) {
+    return true;
+  }
+  return (
+    content.length >= MINIFIED_MIN_LENGTH &&
+    content.length / Math.max(lineCount, 1) > MINIFIED_AVG_LINE_LENGTH
+  );
+}
+
+/**
+ * Count lines that contain code (not blank, not only comments).
+ */
+export function countSloc(content: string): number {
+  let sloc = 0;
+  let inBlockComment = false;
+  let inTemplate = false;
+
+  for (const line of content.split("\n")) {
+    let hasCode = false;
+    let i = 0;
+
+    while (i < line.length) {
+      const ch = line[i];
+      const next = line[i + 1];
+
+      if (inBlockComment) {
+        if (ch === "*" && next === "/") {
+          inBlockComment = false;
+          i += 2;
+        } else {
+          i++;
+        }
+        continue;
+      }
+
+      if (inTemplate) {
+        // Lines inside a multi-line template literal are code
+        hasCode = true;
+        if (ch === "\\") {
+          i += 2;
+        } else {
+          if (ch === "`") inTemplate = false;
+          i++;
+        }
+        continue;
+      }
+
+      if (ch === " " || ch === "\t" || ch === "\r") {
+        i++;
+        continue;
+      }
+      if (ch === "/" && next === "/") {
+        break;
+      }
+      if (ch === "/" && next === "*") {
+        inBlockComment = true;
+        i += 2;
+        continue;
+      }
+
+      hasCode = true;
+      if (ch === '"' || ch === "'") {
+        // Skip to the closing quote so "//" inside strings isn't a comment
+        i++;
+        while (i < line.length && line[i] !== ch) {
+          if (line[i] === "\\") i++;
+          i++;
+        }
+        i++;
+      } else if (ch === "`") {
+        inTemplate = true;
+        i++;
+      } else {
+        i++;
+      }
+    }
+
+    if (hasCode) {
+      sloc++;
+    }
+  }
+
+  return sloc;
+}
+
+function emptyLanguageMetrics(): LanguageMetrics {
+  return { files: 0, lines: 0, sloc: 0 };
+}
+
+export function emptySourceMetrics(): SourceMetrics {
+  return {
+    js: emptyLanguageMetrics(),
+    ts: emptyLanguageMetrics(),
+    dts: emptyLanguageMetrics(),
+    minified: emptyLanguageMetrics(),
+  };
+}
+
+/**
+ * Add one file to the metrics. Non-source files are ignored.
+ */
+export function addSourceFile(metrics: SourceMetrics, path: string, content: string): void {
+  const language = classifySourceFile(path);
+  if (!language) {
+    return;
+  }
+
+  const lines = content.split("\n").length;
+  const bucket =
+    language === "js" && isMinified(path, content, lines) ? metrics.minified : metrics[language];
+
+  bucket.files++;
+  bucket.lines += lines;
+  // SLOC of a minified bundle is meaningless; record physical lines only
+  if (bucket !== metrics.minified) {
+    bucket.sloc += countSloc(content);
+  }
+}
+
+/**
+ * Total number of source files of any kind.
+ */
+export function sourceFileCount(metrics: SourceMetrics): number {
+  return metrics.js.files + metrics.ts.files + metrics.dts.files + metrics.minified.files;
+}
+
+/**
+ * The number a metric selects:
+ *  - sloc     JS + TS SLOC, excluding declarations and minified files (default)
+ *  - lines    JS + TS physical lines, same exclusions
+ *  - js-sloc  JS SLOC only
+ *  - ts-sloc  TS SLOC only
+ *  - raw      every line of every source file (the original newline count)
+ */
+export function metricValue(metrics: SourceMetrics, metric: JsLinesMetric): number {
+  switch (metric) {
+    case "sloc":
+      return metrics.js.sloc + metrics.ts.sloc;
+    case "lines":
+      return metrics.js.lines + metrics.ts.lines;
+    case "js-sloc":
+      return metrics.js.sloc;
+    case "ts-sloc":
+      return metrics.ts.sloc;
+    case "raw":
+      return metrics.js.lines + metrics.ts.lines + metrics.dts.lines + metrics.minified.lines;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Read package tarballs in memory: the gzipped bytes are fed through tar's
+ * streaming parser (which gunzips as it goes) as they download, and file
+ * entries are handed to a callback as they complete. Nothing touches the disk,
+ * and the unpacked size limit aborts the download as soon as it is crossed.
+ */
+
+import { Parser, type ReadEntry } from "tar";
+
+export interface TarballLimits {
+  /** Abort once the declared size of all entries exceeds this */
+  maxUnpackedBytes: number;
+  /** Files larger than this are skipped rather than buffered */
+  maxFileBytes: number;
+}
+
+export const DEFAULT_TARBALL_LIMITS: TarballLimits = {
+  maxUnpackedBytes: 100 * 1024 * 1024,
+  maxFileBytes: 5 * 1024 * 1024,
+};
+
+export interface ReadTarballOptions {
+  limits?: Partial<TarballLimits>;
+  /** Only buffer files this returns true for; others are skipped unread */
+  wantFile?: (path: string) => boolean;
+}
+
+/** Cached tarballs are fed to the parser in slices so limits are checked while decompressing */
+const WRITE_CHUNK_BYTES = 64 * 1024;
+
+function* slices(tarball: Buffer): Generator<Buffer> {
+  for (let offset = 0; offset < tarball.length; offset += WRITE_CHUNK_BYTES) {
+    yield tarball.subarray(offset, offset + WRITE_CHUNK_BYTES);
+  }
+}
+
+/**
+ * Strip the top-level directory npm puts every entry under ("package/" by
+ * convention, but some publishers use other names).
+ */
+function packagePath(entryPath: string): string {
+  return entryPath.replace(/^[^/]+\//, "");
+}
+
+/**
+ * Parse a (gzipped) tarball, calling onFile for each regular file entry with
+ * its path relative to the package root. The tarball may be a buffer or a
+ * stream of chunks (see RegistryCache.streamTarball); a stream stops being
+ * read as soon as the limits are exceeded. Rejects if the archive is corrupt,
+ * the stream fails or the limits are exceeded.
+ */
+export async function readTarball(
+  tarball: Buffer | AsyncIterable<Uint8Array>,
+  onFile: (path: string, content: Buffer) => void,
+  options: ReadTarballOptions = {}
+): Promise<void> {
+  const limits: TarballLimits = {
+    maxUnpackedBytes: options.limits?.maxUnpackedBytes ?? DEFAULT_TARBALL_LIMITS.maxUnpackedBytes,
+    maxFileBytes: options.limits?.maxFileBytes ?? DEFAULT_TARBALL_LIMITS.maxFileBytes,
+  };
+  const wantFile = options.wantFile ?? (() => true);
+
+  const parser = new Parser();
+  let unpackedBytes = 0;
+  let error: Error | undefined;
+  let finish!: () => void;
+  const finished = new Promise<void>((resolve) => (finish = resolve));
+
+  function fail(err: Error): void {
+    if (error) return;
+    error = err;
+    parser.abort(err);
+    finish();
+  }
+
+  parser.on("entry", (entry: ReadEntry) => {
+    unpackedBytes += entry.size;
+    if (unpackedBytes > limits.maxUnpackedBytes) {
+      entry.resume();
+      fail(new Error(`Unpacked size exceeds limit of ${limits.maxUnpackedBytes} bytes`));
+      return;
+    }
+
+    const path = packagePath(entry.path);
+    if (error || entry.type !== "File" || entry.size > limits.maxFileBytes || !wantFile(path)) {
+      entry.resume();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    entry.on("data", (chunk: Buffer) => chunks.push(chunk));
+    entry.on("end", () => {
+      if (error) return;
+      try {
+        onFile(path, Buffer.concat(chunks));
+      } catch (err) {
+        fail(err as Error);
+      }
+    });
+  });
+
+  parser.on("error", (err: Error) => fail(err));
+  // Non-strict parsing tolerates odd entries but not a file that isn't a tarball
+  parser.on("warn", (code: string, message: string) => {
+    if (code === "TAR_BAD_ARCHIVE") fail(new Error(message));
+  });
+  parser.on("end", () => finish());
+
+  try {
+    // Leaving the loop early cancels the rest of a download
+    for await (const chunk of Buffer.isBuffer(tarball) ? slices(tarball) : tarball) {
+      if (error) break;
+      parser.write(Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength));
+    }
+  } catch (err) {
+    fail(err as Error);
+  }
+  if (!error) {
+    parser.end();
+  }
+
+  await finished;
+  if (error) {
+    throw error;
+  }
+}
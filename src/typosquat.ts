@@ -0,0 +1,202 @@
+/**
+ * Typosquat detection: flag new packages whose names imitate popular ones.
+ * Techniques checked, cheapest first:
+ *  - separator swaps ("react_dom", "reactdom" vs "react-dom")
+ *  - homoglyphs ("l0dash", "rnoment" for "moment")
+ *  - scope confusion ("babel-core" vs "@babel/core", "@lodash/lodash" or
+ *    "@angu1ar/react" vs "react")
+ *  - a single edit: insertion, deletion, substitution or transposition
+ */
+
+import { readFile } from "fs/promises";
+import { POPULAR_PACKAGES } from "./popular-packages.js";
+
+export type TyposquatTechnique = "separator" | "homoglyph" | "scope" | "edit-distance";
+
+export interface TyposquatMatch {
+  target: string;
+  technique: TyposquatTechnique;
+}
+
+/** Scopes that legitimately republish popular names (type definitions) */
+const TRUSTED_SCOPES = new Set(["types"]);
+
+/** Names shorter than this are too easy to collide with by accident */
+const MIN_EDIT_DISTANCE_LENGTH = 5;
+
+// Applied in order; multi-character look-alikes first
+const HOMOGLYPHS: Array<[RegExp, string]> = [
+  [/rn/g, "m"],
+  [/vv/g, "w"],
+  [/cl/g, "d"],
+  [/0/g, "o"],
+  [/[1!|]/g, "l"],
+  [/i/g, "l"],
+  [/3/g, "e"],
+  [/4/g, "a"],
+  [/5/g, "s"],
+  [/7/g, "t"],
+  [/8/g, "b"],
+  [/9/g, "g"],
+];
+
+function stripSeparators(name: string): string {
+  return name.replace(/[-_.]/g, "");
+}
+
+function foldHomoglyphs(name: string): string {
+  let folded = name;
+  for (const [pattern, replacement] of HOMOGLYPHS) {
+    folded = folded.replace(pattern, replacement);
+  }
+  return folded;
+}
+
+function splitScope(name: string): { scope?: string; bare: string } {
+  const match = /^@([^/]+)\/(.+)$/.exec(name);
+  return match ? { scope: match[1], bare: match[2] } : { bare: name };
+}
+
+/**
+ * True if a and b differ by exactly one insertion, deletion, substitution or
+ * adjacent transposition.
+ */
+function isOneEditAway(a: string, b: string): boolean {
+  if (a === b || Math.abs(a.length - b.length) > 1) {
+    return false;
+  }
+
+  if (a.length === b.length) {
+    const diffs: number[] = [];
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] !== b[i]) {
+        diffs.push(i);
+        if (diffs.length > 2) return false;
+      }
+    }
+    if (diffs.length === 1) return true;
+    // Adjacent transposition: "lodahs" vs "lodash"
+    const [i, j] = diffs;
+    return j === i + 1 && a[i] === b[j] && a[j] === b[i];
+  }
+
+  const [shorter, longer] = a.length < b.length ? [a, b] : [b, a];
+  let i = 0;
+  while (i < shorter.length && shorter[i] === longer[i]) {
+    i++;
+  }
+  return shorter.slice(i) === longer.slice(i + 1);
+}
+
+/**
+ * Same name up to separators or homoglyphs, or (for longer names) one edit.
+ */
+function looksLike(a: string, b: string): boolean {
+  if (stripSeparators(a) === stripSeparators(b) || foldHomoglyphs(a) === foldHomoglyphs(b)) {
+    return true;
+  }
+  return Math.min(a.length, b.length) >= MIN_EDIT_DISTANCE_LENGTH && isOneEditAway(a, b);
+}
+
+export interface TyposquatDetector {
+  check(pkgName: string): TyposquatMatch | undefined;
+}
+
+/**
+ * Build a detector for a list of popular names. Lookup tables are computed
+ * once so each check is cheap.
+ */
+export function createTyposquatDetector(popularNames: string[] = POPULAR_PACKAGES): TyposquatDetector {
+  const popular = [...new Set(popularNames.map((name) => name.trim().toLowerCase()))].filter(
+    (name) => name.length > 0
+  );
+  const popularSet = new Set(popular);
+
+  const bySeparatorless = new Map<string, string>();
+  const byHomoglyph = new Map<string, string>();
+  const popularScopes = new Set<string>();
+  const unscopedPopular = new Set<string>();
+
+  for (const name of popular) {
+    const { scope, bare } = splitScope(name);
+    if (scope) {
+      popularScopes.add(scope);
+    } else {
+      unscopedPopular.add(name);
+    }
+    // "@babel/core" is commonly imitated as "babel-core" / "babelcore";
+    // if both forms are popular the first listed wins
+    const key = stripSeparators(scope ? scope + bare : name);
+    if (!bySeparatorless.has(key)) {
+      bySeparatorless.set(key, name);
+    }
+    byHomoglyph.set(foldHomoglyphs(name), name);
+  }
+
+  function check(pkgName: string): TyposquatMatch | undefined {
+    const name = pkgName.toLowerCase();
+    if (popularSet.has(name)) {
+      return undefined;
+    }
+
+    const { scope, bare } = splitScope(name);
+
+    // Scope confusion: a look-alike of a popular scope, or a popular unscoped
+    // name under a scope named after it ("@lodash/lodash"). Other scopes that
+    // publish popular names are usually integrations ("@sentry/react").
+    if (scope && !popularScopes.has(scope) && !TRUSTED_SCOPES.has(scope)) {
+      const imitatedScopes = [...popularScopes].filter((popularScope) => looksLike(scope, popularScope));
+      for (const popularScope of imitatedScopes) {
+        const target = popular.find((p) => p === `@${popularScope}/${bare}`);
+        if (target) {
+          return { target, technique: "scope" };
+        }
+      }
+      if (unscopedPopular.has(bare) && (imitatedScopes.length > 0 || looksLike(scope, bare))) {
+        return { target: bare, technique: "scope" };
+      }
+    }
+
+    const separatorTarget = bySeparatorless.get(stripSeparators(scope ? scope + bare : name));
+    if (separatorTarget && separatorTarget !== name) {
+      return {
+        target: separatorTarget,
+        technique: splitScope(separatorTarget).scope && !scope ? "scope" : "separator",
+      };
+    }
+
+    const homoglyphTarget = byHomoglyph.get(foldHomoglyphs(name));
+    if (homoglyphTarget && homoglyphTarget !== name) {
+      return { target: homoglyphTarget, technique: "homoglyph" };
+    }
+
+    if (name.length >= MIN_EDIT_DISTANCE_LENGTH) {
+      for (const target of popular) {
+        if (target.length >= MIN_EDIT_DISTANCE_LENGTH && isOneEditAway(name, target)) {
+          return { target, technique: "edit-distance" };
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  return { check };
+}
+
+/**
+ * Load popular names from a file (one per line, "#" comments allowed).
+ */
+export async function loadPopularNames(filePath: string): Promise<string[]> {
+  let content: string;
+  try {
+    content = await readFile(filePath, "utf-8");
+  } catch (err) {
+    throw new Error(`Could not read popular package list ${filePath}: ${(err as Error).message}`);
+  }
+
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.replace(/#.*$/, "").trim())
+    .filter((line) => line.length > 0);
+}
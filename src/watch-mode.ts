@@ -0,0 +1,199 @@
+/**
+ * Follow the npm changes feed continuously and emit new packages as they appear.
+ * Each change goes through the same recency check and filter chain as a batch scan.
+ */
+
+import { setTimeout as delay } from "timers/promises";
+import { trailingWindow } from "./date-parser.js";
+import {
+  createNameFilter,
+  createPackageMatcher,
+  getIfFirstVersionRecent,
+  getRecentPackageNames,
+  logPackageFilters,
+  type PackageFilterOptions,
+  type PackageInfo,
+  type SkippedPackage,
+} from "./get-recent-npm.js";
+import { createRegistryCache } from "./registry-cache.js";
+import { DEFAULT_REGISTRY_CONFIG } from "./registry-config.js";
+
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 60 * 1000;
+
+/** Times a batch is re-read after package errors before they're skipped */
+const MAX_BATCH_ATTEMPTS = 3;
+
+/** Matched names remembered to avoid repeat posts; the oldest are forgotten first */
+const MAX_EMITTED_NAMES = 10000;
+
+export interface WatchOptions extends PackageFilterOptions {
+  /** Resume after this seq; defaults to the current head of the feed */
+  startSeq?: string;
+  /** How long to wait between polls once caught up (default: 30s) */
+  pollIntervalMs?: number;
+  /** Changes to request per poll (default: 200) */
+  changesLimit?: number;
+  concurrency?: number;
+  /** Stops the watch loop when aborted */
+  signal?: AbortSignal;
+  /** Called for every package that passes all filters */
+  onMatch: (info: PackageInfo) => Promise<void> | void;
+  /** Called after each batch with the seq to resume from */
+  onCheckpoint?: (seq: string) => Promise<void> | void;
+  /** Called with packages that kept failing and were given up on */
+  onSkipped?: (skipped: SkippedPackage[]) => Promise<void> | void;
+}
+
+/**
+ * Sleep for `ms`, returning early (without throwing) if `signal` aborts.
+ */
+async function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  try {
+    await delay(ms, undefined, { signal });
+  } catch (err) {
+    if (!signal?.aborted) {
+      throw err;
+    }
+  }
+}
+
+/**
+ * Watch the changes feed until `signal` aborts.
+ * Returns the last seq that was fully processed so callers can persist it.
+ */
+export async function watchNewPackages(options: WatchOptions): Promise<string | undefined> {
+  const {
+    daysBack = 7,
+    registry = DEFAULT_REGISTRY_CONFIG,
+    pollIntervalMs = 30 * 1000,
+    changesLimit = 200,
+    concurrency = 10,
+    signal,
+    onMatch,
+    onCheckpoint,
+    onSkipped,
+  } = options;
+
+  const emitted = new Set<string>();
+  const nameAllowed = createNameFilter(options);
+  let lastSeq = options.startSeq;
+  let reconnectDelay = MIN_RECONNECT_DELAY_MS;
+  let batchAttempts = 0;
+
+  logPackageFilters(options);
+
+  while (!signal?.aborted) {
+    try {
+      if (lastSeq === undefined) {
+        // Start from the newest change so we only report what happens from now on
+        const head = await getRecentPackageNames(registry, 1);
+        lastSeq = head.highestSeq ?? head.lastSeq;
+        console.log(`Watching changes feed from seq ${lastSeq}...`);
+      }
+
+      const page = await getRecentPackageNames(
+        registry,
+        changesLimit,
+        lastSeq,
+        undefined,
+        false
+      );
+      reconnectDelay = MIN_RECONNECT_DELAY_MS;
+
+      const { names } = page;
+      const failed: SkippedPackage[] = [];
+      let index = 0;
+
+      // Fresh cache per batch: a package showing up again means its packument changed.
+      // That goes for --cache-dir too, so on-disk packuments are always refetched
+      // (tarballs are keyed by integrity and stay cached).
+      const cache = createRegistryCache({ ...options.cacheOptions, ttlMs: 0 });
+      const matchesFilters = createPackageMatcher(options, cache);
+
+      async function worker() {
+        while (index < names.length && !signal?.aborted) {
+          const name = names[index++];
+
+          if (!nameAllowed(name)) {
+            continue;
+          }
+
+          try {
+            const info = await getIfFirstVersionRecent(
+              registry,
+              cache,
+              name,
+              trailingWindow(daysBack),
+              options
+            );
+            if (!info || emitted.has(info.name)) {
+              continue;
+            }
+
+            if (!(await matchesFilters(info))) {
+              continue;
+            }
+
+            emitted.add(info.name);
+            if (emitted.size > MAX_EMITTED_NAMES) {
+              emitted.delete(emitted.values().next().value!);
+            }
+            console.log(`New match: ${info.name}@${info.version}`);
+            await onMatch(info);
+          } catch (err) {
+            const reason = (err as Error).message;
+            console.error(`Error checking ${name}: ${reason}`);
+            failed.push({ name, reason });
+          }
+        }
+      }
+
+      await Promise.all(Array.from({ length: concurrency }, () => worker()));
+
+      if (signal?.aborted) {
+        // Batch was interrupted; keep the previous seq so it's re-read on resume
+        break;
+      }
+
+      // Re-read the batch rather than lose the packages that failed (matches
+      // already posted are remembered in `emitted`); give up after a few tries
+      if (failed.length > 0) {
+        batchAttempts++;
+        if (batchAttempts < MAX_BATCH_ATTEMPTS) {
+          const retryDelay = Math.min(MIN_RECONNECT_DELAY_MS * 2 ** batchAttempts, MAX_RECONNECT_DELAY_MS);
+          console.log(
+            `${failed.length} package(s) failed, retrying batch in ${Math.round(retryDelay / 1000)}s ` +
+              `(attempt ${batchAttempts + 1} of ${MAX_BATCH_ATTEMPTS})`
+          );
+          await sleep(retryDelay, signal);
+          continue;
+        }
+        console.log(`Skipping ${failed.length} package(s) that kept failing.`);
+        await onSkipped?.(failed);
+      }
+      batchAttempts = 0;
+
+      if (page.lastSeq !== lastSeq) {
+        lastSeq = page.lastSeq;
+        await onCheckpoint?.(lastSeq);
+      }
+
+      // A full page means we're behind; keep reading without waiting. Count raw
+      // rows: a full page of repeated ids de-duplicates to only a few names.
+      if (page.rowCount < changesLimit) {
+        await sleep(pollIntervalMs, signal);
+      }
+    } catch (err) {
+      console.error(
+        `Changes feed request failed, reconnecting in ${Math.round(reconnectDelay / 1000)}s:`,
+        (err as Error).message
+      );
+      await sleep(reconnectDelay, signal);
+      reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+    }
+  }
+
+  console.log(`Watch stopped at seq ${lastSeq ?? "(none)"}.`);
+  return lastSeq;
+}